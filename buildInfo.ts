@@ -0,0 +1,57 @@
+import { hostname } from "node:os";
+import path from "path";
+import { hashFile } from "./integrity";
+import type { BuildArtifact, BuildInfo } from "./types";
+
+export const BUILD_INFO_FILE_NAME = "build.json";
+
+/**
+ * @returns the build.json of a build folder, undefined for builds from before it was written
+ */
+export async function readBuildInfo(versionPath: string): Promise<BuildInfo | undefined> {
+   const buildInfoFile = Bun.file(path.resolve(versionPath, BUILD_INFO_FILE_NAME));
+   return (await buildInfoFile.exists()) ? await buildInfoFile.json() : undefined;
+}
+
+/**
+ * Writes build.json to a build folder, adding the host, the toolchain's versions and the hash of every updater bundle
+ * @returns the path of the written file
+ */
+export async function writeBuildInfo(
+   versionPath: string,
+   appPath: string,
+   artifacts: BuildArtifact[],
+   info: Omit<BuildInfo, "host" | "toolchain" | "artifacts">
+): Promise<string> {
+   const buildInfo: BuildInfo = {
+      ...info,
+      host: hostname(),
+      toolchain: { bun: Bun.version, rustc: await getRustcVersion(appPath) },
+      artifacts: [],
+   };
+
+   for (const artifact of artifacts) {
+      const sha256 = (await hashFile(artifact.bundleFile.path, "sha256")).toString("hex");
+      buildInfo.artifacts.push({ target: artifact.target, file: artifact.bundleFile.name, sha256 });
+   }
+
+   const buildInfoPath = path.resolve(versionPath, BUILD_INFO_FILE_NAME);
+   await Bun.write(buildInfoPath, JSON.stringify(buildInfo, null, 2));
+
+   return buildInfoPath;
+}
+
+/**
+ * @returns the version of the rust compiler the app is built with, such as 1.79.0, undefined if rustc isn't installed
+ */
+async function getRustcVersion(appPath: string): Promise<string | undefined> {
+   try {
+      // Run in the app's directory so a rust-toolchain file of the app is respected
+      const rustcProcess = Bun.spawn(["rustc", "--version"], { cwd: appPath, stdout: "pipe", stderr: "ignore" });
+      const output = await new Response(rustcProcess.stdout).text();
+
+      return (await rustcProcess.exited) === 0 ? output.match(/^rustc (\S+)/)?.[1] : undefined;
+   } catch {
+      return undefined;
+   }
+}
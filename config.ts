@@ -0,0 +1,205 @@
+import { existsSync } from "node:fs";
+import path from "path";
+import { isSupportedVersionFile } from "./versionFiles";
+import { validateRetentionRules } from "./retention";
+import { BuildMode, type BundlerConfig, type Channel, type ChannelOptions, type PublisherConfig, type UserConfig } from "./types";
+
+export const CONFIG_FILE_NAMES: string[] = ["huginn-bundler.config.ts", "huginn-bundler.config.json"];
+
+/** Environment variables that can override a key of the config file */
+const ENV_OVERRIDES: Record<Exclude<keyof BundlerConfig, "channels" | "versionFiles" | "publisher">, string> = {
+   owner: "REPO_OWNER",
+   repo: "REPO_NAME",
+   gistId: "GIST_ID",
+   targetBranch: "TARGET_BRANCH",
+   appPath: "APP_PATH",
+   buildsPath: "BUILDS_PATH",
+   tauriDebugBuildPath: "TAURI_DEBUG_BUILD_PATH",
+   tauriReleaseBuildPath: "TAURI_RELEASE_BUILD_PATH",
+   cargoTomlPath: "CARGO_TOML_PATH",
+   packageJsonPath: "PACKAGE_JSON_PATH",
+   updaterPublicKey: "TAURI_PUBLIC_KEY",
+};
+
+const DEFAULTS: UserConfig = {
+   owner: "WerdoxDev",
+   targetBranch: "master",
+   appPath: "../huginn-app-react",
+};
+
+const DEFAULT_CHANNELS: Record<string, ChannelOptions> = {
+   release: { mode: BuildMode.RELEASE, tagSuffix: "", prerelease: false },
+   debug: { mode: BuildMode.DEBUG, tagSuffix: "-dev", prerelease: false },
+};
+
+/** Keys that hold a path, these are resolved relative to the config file */
+const PATH_KEYS: (keyof BundlerConfig)[] = [
+   "appPath",
+   "buildsPath",
+   "tauriDebugBuildPath",
+   "tauriReleaseBuildPath",
+   "cargoTomlPath",
+   "packageJsonPath",
+];
+
+/** Keys that can be left out, the rest have to be set in the config file or their environment variable */
+const OPTIONAL_KEYS: (keyof BundlerConfig)[] = ["repo", "gistId", "cargoTomlPath", "packageJsonPath", "updaterPublicKey"];
+
+/** Path keys that have to exist before anything runs. Tauri's build folders are only created by the first build */
+const EXISTING_PATH_KEYS: (keyof BundlerConfig)[] = ["appPath", "buildsPath", "cargoTomlPath", "packageJsonPath"];
+
+/**
+ * @returns the bundler config read from the config file in the given directory, overridden by environment variables
+ */
+export async function loadConfig(directory: string = process.cwd()): Promise<BundlerConfig> {
+   const configPath = CONFIG_FILE_NAMES.map((x) => path.resolve(directory, x)).find((x) => existsSync(x));
+   const fileConfig = configPath ? await readConfigFile(configPath) : {};
+
+   const merged: Record<string, unknown> = { ...DEFAULTS, ...fileConfig };
+   for (const [key, envName] of Object.entries(ENV_OVERRIDES)) {
+      if (process.env[envName]) merged[key] = process.env[envName];
+   }
+
+   return validateConfig(merged, configPath ? path.dirname(configPath) : directory, configPath);
+}
+
+/**
+ * @returns the contents of a .ts or .json config file
+ */
+async function readConfigFile(configPath: string): Promise<UserConfig> {
+   if (configPath.endsWith(".json")) return await Bun.file(configPath).json();
+
+   const module = await import(configPath);
+   return module.default ?? {};
+}
+
+/**
+ * Checks that every key is present and every required path exists
+ * @returns the config with all of its paths resolved
+ */
+function validateConfig(config: Record<string, unknown>, baseDirectory: string, configPath?: string): BundlerConfig {
+   const source = configPath ? path.basename(configPath) : "environment";
+   const problems: string[] = [];
+
+   for (const [key, envName] of Object.entries(ENV_OVERRIDES)) {
+      const value = config[key];
+
+      if ((value === undefined || value === "") && OPTIONAL_KEYS.includes(key as keyof BundlerConfig)) {
+         delete config[key];
+      } else if (value === undefined || value === "") {
+         problems.push(`"${key}" is missing (set it in ${CONFIG_FILE_NAMES.join(" / ")} or the ${envName} environment variable)`);
+      } else if (typeof value !== "string") {
+         problems.push(`"${key}" must be a string but was ${typeof value}`);
+      } else if (PATH_KEYS.includes(key as keyof BundlerConfig)) {
+         config[key] = path.resolve(baseDirectory, value);
+
+         if (EXISTING_PATH_KEYS.includes(key as keyof BundlerConfig) && !existsSync(config[key] as string)) {
+            problems.push(`"${key}" points to ${config[key]} which does not exist`);
+         }
+      }
+   }
+
+   config.versionFiles = resolveVersionFiles(config, baseDirectory, problems);
+   config.channels = resolveChannels(config.channels, problems);
+   config.publisher = resolvePublisher(config, baseDirectory, problems);
+
+   if (problems.length > 0) {
+      throw new Error(`Invalid bundler config (${source}):\n${problems.map((x) => `  - ${x}`).join("\n")}`);
+   }
+
+   return config as BundlerConfig;
+}
+
+/**
+ * @returns the resolved paths of every version file, defaulting to the Cargo.toml and package.json paths
+ */
+function resolveVersionFiles(config: Record<string, unknown>, baseDirectory: string, problems: string[]): string[] {
+   const value = config.versionFiles ?? [config.cargoTomlPath, config.packageJsonPath].filter((x) => x !== undefined);
+
+   if (!Array.isArray(value) || value.some((x) => typeof x !== "string")) {
+      problems.push(`"versionFiles" must be an array of paths`);
+      return [];
+   }
+
+   if (value.length === 0) {
+      problems.push(`"versionFiles" is missing (or set "cargoTomlPath" and "packageJsonPath" to use them as the version files)`);
+   }
+
+   return value.map((x: string, i) => {
+      const filePath = path.resolve(baseDirectory, x);
+
+      if (!existsSync(filePath)) problems.push(`"versionFiles[${i}]" points to ${filePath} which does not exist`);
+      else if (!isSupportedVersionFile(filePath)) problems.push(`"versionFiles[${i}]" (${filePath}) is not a Cargo.toml or json file`);
+
+      return filePath;
+   });
+}
+
+/**
+ * Checks the options of the configured publisher, the github publisher also needs the repo and gistId keys
+ * @returns the publisher config with its path resolved
+ */
+function resolvePublisher(config: Record<string, unknown>, baseDirectory: string, problems: string[]): PublisherConfig {
+   const publisher = (config.publisher ?? { type: "github" }) as PublisherConfig;
+
+   if (publisher.type === "github") {
+      if (!config.repo)
+         problems.push(`"repo" is missing (required by the github publisher, or set the ${ENV_OVERRIDES.repo} environment variable)`);
+      if (!config.gistId)
+         problems.push(
+            `"gistId" is missing (required by the github publisher, or set the ${ENV_OVERRIDES.gistId} environment variable)`
+         );
+   } else if (publisher.type === "local") {
+      if (typeof publisher.path !== "string") problems.push(`"publisher.path" is missing (required by the local publisher)`);
+      else return { ...publisher, path: path.resolve(baseDirectory, publisher.path) };
+   } else if (publisher.type === "http") {
+      if (typeof publisher.url !== "string") problems.push(`"publisher.url" is missing (required by the http publisher)`);
+   } else {
+      problems.push(`"publisher.type" must be one of github, local, http`);
+   }
+
+   return publisher;
+}
+
+/**
+ * Fills every channel of the config with the default options derived from its name
+ * @returns the release and debug channels followed by the user defined ones
+ */
+function resolveChannels(value: unknown, problems: string[]): Channel[] {
+   if (value !== undefined && (typeof value !== "object" || value === null || Array.isArray(value))) {
+      problems.push(`"channels" must be an object of channel names to their options`);
+      return [];
+   }
+
+   const options = { ...DEFAULT_CHANNELS };
+   for (const [name, channel] of Object.entries((value ?? {}) as Record<string, ChannelOptions>)) {
+      options[name] = { ...options[name], ...channel };
+   }
+
+   const channels = Object.entries(options).map<Channel>(([name, channel]) => ({
+      name,
+      mode: channel.mode ?? BuildMode.RELEASE,
+      folderSuffix: channel.folderSuffix ?? `_${name}`,
+      tagSuffix: channel.tagSuffix ?? `-${name}`,
+      prerelease: channel.prerelease ?? true,
+      manifestFileName: channel.manifestFileName ?? `huginn-version-${name}.json`,
+      retention: channel.retention,
+   }));
+
+   for (const channel of channels) {
+      if (!Object.values(BuildMode).includes(channel.mode)) {
+         problems.push(`"channels.${channel.name}.mode" must be one of ${Object.values(BuildMode).join(", ")}`);
+      }
+
+      if (channel.retention !== undefined) problems.push(...validateRetentionRules(channel.retention, channel.name));
+
+      for (const key of ["folderSuffix", "tagSuffix", "manifestFileName"] as const) {
+         const other = channels.find((x) => x !== channel && x[key] === channel[key]);
+         if (other && channels.indexOf(other) > channels.indexOf(channel)) {
+            problems.push(`"channels.${channel.name}.${key}" is the same as "channels.${other.name}.${key}" (${channel[key]})`);
+         }
+      }
+   }
+
+   return channels;
+}
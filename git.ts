@@ -0,0 +1,112 @@
+import type { GitCommit } from "./types";
+
+/** Separates the fields of a commit in git log's output */
+const FIELD_SEPARATOR = "\x1f";
+
+/** Separates the commits in git log's output */
+const COMMIT_SEPARATOR = "\x1e";
+
+/**
+ * @returns the commits reachable from `to` but not from `from`, newest first. Every commit reachable from `to` when from isn't given
+ */
+export async function getCommits(repoPath: string, to: string, from?: string): Promise<GitCommit[]> {
+   const format = ["%h", "%s", "%b"].join(FIELD_SEPARATOR) + COMMIT_SEPARATOR;
+   const output = await runGit(repoPath, ["log", "--no-merges", `--format=${format}`, from ? `${from}..${to}` : to]);
+
+   return output
+      .split(COMMIT_SEPARATOR)
+      .map((x) => x.trim())
+      .filter((x) => x.length > 0)
+      .map((x) => {
+         const [hash, subject, body] = x.split(FIELD_SEPARATOR);
+         return { hash, subject, body: body?.trim() ?? "" };
+      });
+}
+
+/**
+ * @returns the full hash of the commit HEAD points to
+ */
+export async function getHeadCommit(repoPath: string): Promise<string> {
+   return (await runGit(repoPath, ["rev-parse", "HEAD"])).trim();
+}
+
+/**
+ * @returns every file with changes that aren't committed, including untracked files that aren't ignored
+ */
+export async function getUncommittedFiles(repoPath: string): Promise<string[]> {
+   const output = await runGit(repoPath, ["status", "--porcelain", "--untracked-files=all"]);
+   return output
+      .split("\n")
+      .filter((x) => x.length > 0)
+      .map((x) => x.slice(3));
+}
+
+/**
+ * @returns the root folder of the repository, the paths git lists are relative to it
+ */
+export async function getRepoRoot(repoPath: string): Promise<string> {
+   return (await runGit(repoPath, ["rev-parse", "--show-toplevel"])).trim();
+}
+
+/**
+ * Commits the changes of only the given files, whatever else is changed or staged is left out
+ * @returns the full hash of the new commit
+ */
+export async function commitFiles(repoPath: string, filePaths: string[], message: string): Promise<string> {
+   await runGit(repoPath, ["commit", "--message", message, "--", ...filePaths]);
+   return await getHeadCommit(repoPath);
+}
+
+/**
+ * Restores tracked files to their content in the HEAD commit
+ */
+export async function restoreFiles(repoPath: string, filePaths: string[]): Promise<void> {
+   await runGit(repoPath, ["checkout", "HEAD", "--", ...filePaths]);
+}
+
+/**
+ * Creates a lightweight tag pointing to a commit
+ */
+export async function createTag(repoPath: string, tag: string, commit: string): Promise<void> {
+   await runGit(repoPath, ["tag", tag, commit]);
+}
+
+/**
+ * Deletes a tag from the repository if it exists
+ */
+export async function deleteTag(repoPath: string, tag: string): Promise<void> {
+   if (await hasRef(repoPath, `refs/tags/${tag}`)) await runGit(repoPath, ["tag", "--delete", tag]);
+}
+
+/**
+ * @returns whether a commit is on a branch of a remote, as far as the remote branches were last fetched
+ */
+export async function isCommitPushed(repoPath: string, commit: string): Promise<boolean> {
+   return (await runGit(repoPath, ["branch", "--remotes", "--contains", commit])).trim().length > 0;
+}
+
+/**
+ * @returns whether a tag, branch or commit exists in the repository
+ */
+export async function hasRef(repoPath: string, ref: string): Promise<boolean> {
+   return await runGit(repoPath, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`])
+      .then(() => true)
+      .catch(() => false);
+}
+
+/**
+ * Runs git in a repository
+ * @returns the output of the command
+ */
+async function runGit(repoPath: string, args: string[]): Promise<string> {
+   const gitProcess = Bun.spawn(["git", ...args], { cwd: repoPath, stdout: "pipe", stderr: "pipe" });
+
+   const [output, error, exitCode] = await Promise.all([
+      new Response(gitProcess.stdout).text(),
+      new Response(gitProcess.stderr).text(),
+      gitProcess.exited,
+   ]);
+
+   if (exitCode !== 0) throw new Error(`git ${args[0]} failed with exit code ${exitCode}: ${error.trim()}`);
+   return output;
+}
@@ -0,0 +1,60 @@
+import path from "path";
+import type { ManifestHistoryEntry, UpdateFileInfo } from "./types";
+
+export const HISTORY_FILE_NAME = "manifest-history.json";
+
+/** Longest value shown in a manifest diff, longer ones such as signatures keep only their start and end */
+const MAX_DIFF_VALUE_LENGTH = 60;
+
+/**
+ * @returns every manifest that was published from this machine, oldest first
+ */
+export async function readManifestHistory(buildsPath: string): Promise<ManifestHistoryEntry[]> {
+   const historyFile = Bun.file(path.resolve(buildsPath, HISTORY_FILE_NAME));
+   return (await historyFile.exists()) ? await historyFile.json() : [];
+}
+
+/**
+ * Adds a published manifest to the history in the builds folder
+ */
+export async function recordManifest(buildsPath: string, channelName: string, manifest: UpdateFileInfo): Promise<void> {
+   const history = await readManifestHistory(buildsPath);
+   history.push({ version: manifest.version, channel: channelName, date: new Date().toISOString(), manifest });
+
+   await Bun.write(path.resolve(buildsPath, HISTORY_FILE_NAME), JSON.stringify(history, null, 2));
+}
+
+/**
+ * @returns every field that differs between two manifests, such as platforms.linux-x86_64.url
+ */
+export function getManifestChanges(
+   oldManifest: UpdateFileInfo | undefined,
+   newManifest: UpdateFileInfo
+): { field: string; oldValue?: string; newValue?: string }[] {
+   const oldFields = oldManifest ? flattenManifest(oldManifest) : {};
+   const newFields = flattenManifest(newManifest);
+
+   return [...new Set([...Object.keys(oldFields), ...Object.keys(newFields)])]
+      .filter((x) => oldFields[x] !== newFields[x])
+      .map((x) => ({ field: x, oldValue: shortenValue(oldFields[x]), newValue: shortenValue(newFields[x]) }));
+}
+
+function flattenManifest(manifest: UpdateFileInfo): Record<string, string> {
+   const fields: Record<string, string> = { version: manifest.version, pub_date: manifest.pub_date, notes: manifest.notes };
+
+   for (const [target, platform] of Object.entries(manifest.platforms)) {
+      fields[`platforms.${target}.url`] = platform.url;
+      fields[`platforms.${target}.signature`] = platform.signature;
+   }
+
+   return fields;
+}
+
+function shortenValue(value?: string): string | undefined {
+   if (value === undefined) return undefined;
+
+   const line = value.replace(/\s*\n\s*/g, " ");
+   const half = Math.floor((MAX_DIFF_VALUE_LENGTH - 3) / 2);
+
+   return line.length > MAX_DIFF_VALUE_LENGTH ? `${line.slice(0, half)}...${line.slice(-half)}` : line;
+}
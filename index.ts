@@ -1,251 +1,1500 @@
 #! /usr/bin/env bun
 
-import { input, select } from "@inquirer/prompts";
-import consola from "consola";
-import { Octokit } from "octokit";
-import { $, semver, type ShellOutput } from "bun";
+import { checkbox, confirm, editor, input, select } from "@inquirer/prompts";
 import { colors } from "consola/utils";
+import { existsSync } from "node:fs";
 import { mkdir, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
 import path from "path";
+import yargs from "yargs";
+import { hideBin } from "yargs/helpers";
 import {
-   CARGO_TOML_PATH,
-   BUILDS_PATH,
-   GIST_ID,
-   PACKAGE_JSON_PATH,
-   REPO,
-   TAURI_DEBUG_BUILD_PATH,
-   TAURI_RELEASE_BUILD_PATH,
+   createUpdateFileInfo,
    getBuildFiles,
+   getBundleArch,
+   getBundleContentType,
+   compareVersions,
+   getBuildFolderName,
+   getChannel,
    getPatchedVersion,
+   getTagChannel,
+   getTagName,
    getVersions,
+   isValidVersion,
+   PLATFORMS,
+   PROMOTIONS_FILE_NAME,
+   readPromotions,
    stringToVersion,
    versionToString,
-   writeCargoTomlVersion,
-   writePackageJsonVersion,
-   getVersionSuffix,
 } from "./utils";
-import { BuildType, type AppVersion, type UpdateFileInfo } from "./types";
-import { getVersionTypeText, logger } from "./logger";
-
-const octokit = new Octokit({ auth: process.env.GITHUB_TOKEN });
-
-logger.bundlerInfo();
-
-const intent = await select({
-   message: "Select an action:",
-   choices: [
-      { name: "Build", value: 0 },
-      { name: "Create Release", value: 1 },
-      { name: "Delete Release", value: 2 },
-      { name: "Delete Build", value: 3 },
-   ],
-});
-
-if (intent === 0) {
-   const version = await input({ message: `Enter the desired version ${colors.red("without patch number")}:` });
-   const debugOrRelease = await select({
-      message: "Select a build mode:",
-      choices: [
-         { name: "Release", value: BuildType.RELEASE },
-         { name: "Debug", value: BuildType.DEBUG },
-      ],
-   });
+import { getTauriBuildArch, getTauriBuildCommand, runTauriBuild } from "./tauri";
+import { uploadAssetWithRetry } from "./upload";
+import { getManifestChanges, readManifestHistory, recordManifest } from "./history";
+import {
+   commitFiles,
+   createTag,
+   deleteTag,
+   getCommits,
+   getHeadCommit,
+   getRepoRoot,
+   getUncommittedFiles,
+   hasRef,
+   isCommitPushed,
+   restoreFiles,
+} from "./git";
+import { generateReleaseNotes, getManifestNotes } from "./releaseNotes";
+import { CHECKSUMS_FILE_NAME, verifyBuildFiles, writeChecksums } from "./integrity";
+import { BUILD_INFO_FILE_NAME, readBuildInfo, writeBuildInfo } from "./buildInfo";
+import { getUnretainedVersions } from "./retention";
+import { getLockFilePaths, getVersionFileChanges, restoreVersionFile, writeVersionFileChanges } from "./versionFiles";
+import {
+   BuildMode,
+   BumpStrategy,
+   DeleteTarget,
+   ReporterType,
+   type AppVersion,
+   type BuildArtifact,
+   type BuildResult,
+   type BuildVersion,
+   type BundlerConfig,
+   type Channel,
+   type ChannelStatus,
+   type DeleteResult,
+   type DryRunResult,
+   type GitCommit,
+   type Publisher,
+   type PublisherRelease,
+   type ReleaseResult,
+   type ReleaseVersion,
+   type RollbackResult,
+   type UpdateFileInfo,
+   type Version,
+   type VersionFileChange,
+} from "./types";
+import { getChannelText, logger, setReporter } from "./logger";
+import { createReporter, toJson } from "./reporters";
+import { loadConfig } from "./config";
+import { createPublisher } from "./publishers";
+import { startUpdateServer } from "./server";
+import { getChannelStatus } from "./status";
 
-   await buildVersion(version, debugOrRelease);
-} else if (intent === 1) {
-   const versions = await getVersions();
+let config: BundlerConfig;
+let publisher: Publisher;
+/** Whether actions only print what they would do instead of doing it */
+let isDryRun = false;
+/** Whether the result of the command is printed as JSON, the log is written to stderr instead of stdout */
+let isJson = false;
 
-   const version = await select({
-      message: "Select the version to publish:",
-      choices: versions.map((v) => ({
-         name: `${versionToString(v.version)} ${getVersionTypeText(v.type)}`,
-         value: v,
-      })),
-   });
+type BuildOptions = {
+   /** Whether the version files and their lockfiles are committed once the build succeeds, otherwise they are reverted */
+   commitVersionBump: boolean;
+   /** Builds of a working tree with uncommitted changes don't record a commit */
+   isDirty: boolean;
+};
 
-   const description = await input({
-      message: "Enter a description:",
-   });
+type ReleaseOptions = {
+   /** Build folder the release's files are read from, defaults to the version's folder of the channel */
+   versionPath?: string;
+   draft?: boolean;
+   /** Marks the release as a prerelease even if the channel's releases aren't */
+   prerelease?: boolean;
+};
 
-   await createGithubRelease(versionToString(version.version), version.type, description);
-   await updateGistFile(version.type, versionToString(version.version), description);
-   // await logVersions();
-} else if (intent === 2) {
-   const releases = await octokit.rest.repos.listReleases({ repo: REPO, owner: "WerdoxDev" });
-
-   const versions: (AppVersion & { id: number; tag: string })[] = releases.data.map((x) => ({
-      type: x.tag_name.includes("-dev") ? BuildType.DEBUG : BuildType.RELEASE,
-      version: stringToVersion(x.tag_name.slice(1, 6)),
-      id: x.id,
-      tag: x.tag_name,
-   }));
-
-   const release = await select({
-      message: "Select a release to delete:",
-      choices: versions.map((v) => ({ name: `${versionToString(v.version)} ${getVersionTypeText(v.type)}`, value: v })),
-   });
+await yargs(hideBin(process.argv))
+   .scriptName("bundler")
+   .command(
+      "build [version]",
+      "Builds and bundles the app",
+      (yargs) =>
+         yargs
+            .positional("version", {
+               description: "An explicit version such as 1.2.3, or major.minor to increase the patch number of that line",
+               type: "string",
+            })
+            .option("channel", { description: "The channel to build for", type: "string", alias: "mode" })
+            .option("bump", { description: "How to increase the latest version of the channel", choices: Object.values(BumpStrategy) })
+            .option("preid", { description: "The prerelease identifier used with --bump prerelease, such as beta", type: "string" })
+            .option("commit", { description: "Commit the version bump in the app's repository after building", type: "boolean" })
+            .option("allow-dirty", {
+               description: "Build even if the app's repository has uncommitted changes, the build won't record a commit",
+               type: "boolean",
+            })
+            .option("force", {
+               description: "Build even if the same commit was already built in the channel's mode",
+               type: "boolean",
+            })
+            .conflicts("version", "bump")
+            .conflicts("commit", "allow-dirty"),
+      (argv) =>
+         buildCommand(argv.version, argv.channel, argv.bump, argv.preid, argv.commit, argv.allowDirty, argv.force).then(printResult)
+   )
+   .command(
+      "release [version]",
+      "Creates a release and updates the updater manifest for a built version",
+      (yargs) =>
+         yargs
+            .positional("version", { description: "The built version to release", type: "string" })
+            .option("channel", { description: "The channel of the version", type: "string", alias: "type" })
+            .option("notes", { description: "The release notes", type: "string" })
+            .option("notes-file", { description: "A file to read the release notes from", type: "string" })
+            .option("draft", { description: "Create a draft release and leave the manifest for the publish command", type: "boolean" })
+            .option("prerelease", {
+               description: "Create the release as a prerelease and leave the manifest for the publish command",
+               type: "boolean",
+            }),
+      (argv) => releaseCommand(argv.version, argv.channel, argv.notes, argv.notesFile, argv.draft, argv.prerelease).then(printResult)
+   )
+   .command(
+      "publish [tag]",
+      "Makes a draft or prerelease release public and updates the updater manifest",
+      (yargs) => yargs.positional("tag", { description: "The tag of the release to publish", type: "string" }),
+      (argv) => publishCommand(argv.tag).then(printResult)
+   )
+   .command(
+      "promote [version]",
+      "Publishes a build made in release mode under another channel without rebuilding it",
+      (yargs) =>
+         yargs
+            .positional("version", { description: "The built version to promote", type: "string" })
+            .option("from", { description: "The channel the version was built for", type: "string" })
+            .option("to", { description: "The channel to publish the version to", type: "string" })
+            .option("notes", { description: "The release notes", type: "string" })
+            .option("notes-file", { description: "A file to read the release notes from", type: "string" }),
+      (argv) => promoteCommand(argv.version, argv.from, argv.to, argv.notes, argv.notesFile).then(printResult)
+   )
+   .command(
+      "delete [version]",
+      "Deletes any combination of a version's local build, release, tag and manifest",
+      (yargs) =>
+         yargs
+            .positional("version", { description: "The version to delete", type: "string" })
+            .option("channel", { description: "The channel of the version", type: "string", alias: "type" })
+            .option("targets", { description: "What to delete", type: "array", choices: Object.values(DeleteTarget) })
+            .option("yes", { description: "Delete without asking for confirmation", type: "boolean", default: false }),
+      (argv) => deleteCommand(argv.version, argv.channel, argv.targets as DeleteTarget[] | undefined, argv.yes).then(printResult)
+   )
+   .command(
+      "delete-release [tag]",
+      "Deletes a release and its tag",
+      (yargs) =>
+         yargs
+            .positional("tag", { description: "The tag of the release to delete", type: "string" })
+            .option("yes", { description: "Delete without asking for confirmation", type: "boolean", default: false }),
+      (argv) => deleteReleaseCommand(argv.tag, argv.yes).then(printResult)
+   )
+   .command(
+      "delete-build [version]",
+      "Deletes a local build",
+      (yargs) =>
+         yargs
+            .positional("version", { description: "The version of the build to delete", type: "string" })
+            .option("channel", { description: "The channel of the version", type: "string", alias: "type" })
+            .option("yes", { description: "Delete without asking for confirmation", type: "boolean", default: false }),
+      (argv) => deleteBuildCommand(argv.version, argv.channel, argv.yes).then(printResult)
+   )
+   .command(
+      "prune [channel]",
+      "Deletes the builds and releases that the retention rules of the channels don't keep",
+      (yargs) =>
+         yargs
+            .positional("channel", {
+               description: "The only channel to prune, every channel with retention rules by default",
+               type: "string",
+            })
+            .option("yes", { description: "Delete without asking for confirmation", type: "boolean", default: false }),
+      (argv) => pruneCommand(argv.channel, argv.yes).then(printResult)
+   )
+   .command(
+      "rollback [channel]",
+      "Publishes an earlier manifest of a channel from the manifest history",
+      (yargs) =>
+         yargs
+            .positional("channel", { description: "The channel to roll back", type: "string" })
+            .option("to", { description: "The version to roll the manifest back to", type: "string" })
+            .option("yes", { description: "Roll back without asking for confirmation", type: "boolean", default: false }),
+      (argv) => rollbackCommand(argv.channel, argv.to, argv.yes).then(printResult)
+   )
+   .command(
+      "status",
+      "Shows the builds, releases and manifest of every channel and where they have drifted apart",
+      () => {},
+      () => statusCommand().then(printResult)
+   )
+   .command(
+      "channels",
+      "Shows the version the updater manifest of each channel points to",
+      () => {},
+      () => channelsCommand().then(printResult)
+   )
+   .command(
+      "serve",
+      "Serves the local builds and their updater manifests for testing the updater",
+      (yargs) =>
+         yargs
+            .option("port", { description: "The port to listen on", type: "number", default: 8080 })
+            .option("host", { description: "The hostname to listen on", type: "string", default: "localhost" }),
+      (argv) => serveCommand(argv.host, argv.port)
+   )
+   .command(
+      "$0",
+      "Selects an action interactively",
+      () => {},
+      () => interactiveCommand().then(printResult)
+   )
+   .option("dry-run", { description: "Print what would be done without changing anything", type: "boolean", default: false })
+   .option("json", { description: "Print the result of the command as JSON, the log goes to stderr", type: "boolean", default: false })
+   .option("reporter", { description: "The format of the log", choices: Object.values(ReporterType), default: ReporterType.PRETTY })
+   .middleware(async (argv) => {
+      isJson = argv.json;
+      setReporter(createReporter(argv.reporter, isJson ? process.stderr : process.stdout));
+      logger.bundlerInfo();
 
-   await octokit.rest.repos.deleteRelease({ owner: "WerdoxDev", repo: REPO, release_id: release.id });
-   await octokit.rest.git.deleteRef({ owner: "WerdoxDev", repo: REPO, ref: `tags/${release.tag}` });
+      config = await loadConfig();
+      publisher = createPublisher(config);
+      isDryRun = argv.dryRun;
+   })
+   .fail((message, error, yargs) => {
+      if (error) {
+         logger.commandFailed(error.message);
+         if (isJson) printResult({ error: error.message });
+      } else {
+         yargs.showHelp();
+         logger.commandFailed(message);
+      }
 
-   logger.releaseDeleted(versionToString(release.version), release.type);
-} else if (intent === 3) {
-   const versions = await getVersions();
+      process.exit(1);
+   })
+   .version(false)
+   .strict()
+   .parseAsync();
 
-   const version = await select({
-      message: "Select the version to delete:",
-      choices: versions.map((v) => ({
-         name: `${versionToString(v.version)} ${getVersionTypeText(v.type)}`,
-         value: v,
-      })),
-   });
+async function interactiveCommand() {
+   const intent = await select(
+      {
+         message: "Select an action:",
+         choices: [
+            { name: "Build", value: 0 },
+            { name: "Create Release", value: 1 },
+            { name: "Publish Release", value: 7 },
+            { name: "Promote Build", value: 2 },
+            { name: "Delete", value: 3 },
+            { name: "Prune", value: 8 },
+            { name: "Roll Back Manifest", value: 4 },
+            { name: "Show Status", value: 5 },
+            { name: "Show Channels", value: 6 },
+         ],
+      },
+      getPromptContext()
+   );
+
+   if (intent === 0) return await buildCommand();
+   else if (intent === 1) return await releaseCommand();
+   else if (intent === 2) return await promoteCommand();
+   else if (intent === 3) return await deleteCommand();
+   else if (intent === 4) return await rollbackCommand();
+   else if (intent === 5) return await statusCommand();
+   else if (intent === 6) return await channelsCommand();
+   else if (intent === 7) return await publishCommand();
+   else if (intent === 8) return await pruneCommand();
+}
+
+/**
+ * Prints the result of a command as JSON when --json is given, cancelled commands have no result and print null
+ */
+function printResult(result: unknown) {
+   if (isJson) process.stdout.write(`${toJson(result ?? null)}\n`);
+}
+
+/**
+ * @returns where prompts are shown, stdout only has the result with --json
+ */
+function getPromptContext() {
+   return { output: isJson ? process.stderr : process.stdout };
+}
+
+async function buildCommand(
+   version?: string,
+   channelName?: string,
+   bump?: BumpStrategy,
+   preid?: string,
+   commit?: boolean,
+   allowDirty: boolean = false,
+   force?: boolean
+): Promise<BuildResult | DryRunResult> {
+   // A build has to match a commit, so its release can be tagged at exactly the source it was built from
+   const uncommittedFiles = await getUncommittedFiles(config.appPath);
+   const isDirty = uncommittedFiles.length > 0;
+
+   if (isDirty && !allowDirty) {
+      throw new Error(
+         `The app's repository has uncommitted changes, commit or stash them before building:\n${uncommittedFiles.map((x) => `  - ${x}`).join("\n")}`
+      );
+   }
+
+   if (isDirty) logger.buildingDirtyTree(uncommittedFiles.length);
+
+   const channel = channelName
+      ? getChannel(channelName, config.channels)
+      : await select(
+           {
+              message: "Select a channel:",
+              choices: config.channels.map((x) => ({ name: `${getChannelText(x)} ${colors.gray(`(${x.mode})`)}`, value: x })),
+           },
+           getPromptContext()
+        );
+
+   // Building the same commit in the same mode again would only produce the same app under another version
+   const headCommit = isDirty ? undefined : await getHeadCommit(config.appPath);
+   const existingBuild = (await getVersions(config.buildsPath, config.channels)).find(
+      (x) => headCommit && x.info?.commit === headCommit && x.info.mode === channel.mode
+   );
+
+   if (existingBuild) {
+      const existingVersion = `${versionToString(existingBuild.version)} ${getChannelText(existingBuild.channel)}`;
+      const shouldRebuild =
+         force ??
+         (await confirm(
+            {
+               message: `${existingVersion} was already built from ${headCommit!.slice(0, 7)} in ${channel.mode} mode, build it again?`,
+               default: false,
+            },
+            getPromptContext()
+         ));
+
+      if (!shouldRebuild) {
+         logger.buildSkipped(existingVersion, headCommit!);
+
+         const existingVersionText = versionToString(existingBuild.version);
+         return {
+            version: existingVersionText,
+            channel: existingBuild.channel.name,
+            path: getVersionPath(existingVersionText, existingBuild.channel),
+            skipped: true,
+            info: existingBuild.info,
+         };
+      }
+   }
+
+   const latestVersion = await getLatestVersion(channel);
+   const latestVersionText = latestVersion ? versionToString(latestVersion) : "none";
+
+   if (!version && !bump) {
+      bump = await select<BumpStrategy | undefined>(
+         {
+            message: `Select how to increase the version (latest ${channel.name} version is ${colors.cyan(latestVersionText)}):`,
+            choices: [
+               ...Object.values(BumpStrategy).map((x) => ({ name: x.charAt(0).toUpperCase() + x.slice(1), value: x })),
+               { name: "Explicit version", value: undefined },
+            ],
+         },
+         getPromptContext()
+      );
+   }
+
+   if (bump === BumpStrategy.PRERELEASE && !preid && !latestVersion?.prerelease?.length) {
+      preid = await input({ message: "Enter the prerelease identifier:", default: channel.name }, getPromptContext());
+   }
+
+   if (!version && !bump) {
+      version = await input(
+         { message: `Enter the version ${colors.gray("(1.2.3 or major.minor to increase its patch number)")}:` },
+         getPromptContext()
+      );
+   }
+
+   const newVersion = getPatchedVersion((version ?? bump)!, latestVersion, preid);
+
+   if (commit === undefined && !isDirty) {
+      commit = await confirm(
+         { message: `Commit the version bump to ${newVersion} after building?`, default: true },
+         getPromptContext()
+      );
+   }
+
+   const options = { commitVersionBump: !!commit, isDirty };
+
+   if (isDryRun) return await planBuild(newVersion, channel, options);
+   return await buildVersion(newVersion, channel, options);
+}
+
+async function releaseCommand(
+   version?: string,
+   channelName?: string,
+   notes?: string,
+   notesFile?: string,
+   draft: boolean = false,
+   prerelease: boolean = false
+): Promise<ReleaseResult | DryRunResult> {
+   const channel = channelName ? getChannel(channelName, config.channels) : undefined;
+   const appVersion = await selectVersion("Select the version to publish:", version, channel);
+   const versionText = versionToString(appVersion.version);
+
+   // A release is only staged while its prerelease flag differs from the channel's, so it would be published right away
+   if (prerelease && appVersion.channel.prerelease) {
+      throw new Error(`${appVersion.channel.name} releases are already prereleases, use --draft to stage the release instead`);
+   }
+
+   const description = await getDescription(
+      versionText,
+      appVersion.channel,
+      getVersionPath(versionText, appVersion.channel),
+      notes,
+      notesFile
+   );
+
+   if (isDryRun) return await planRelease(versionText, appVersion.channel, description, { draft, prerelease });
+
+   const release = await createRelease(versionText, appVersion.channel, description, { draft, prerelease });
+
+   // A staged release is reviewed first, the manifest is only updated once it is published
+   if (draft || prerelease) {
+      logger.releaseStaged(release.tag, draft);
+      return getReleaseResult(release, appVersion.channel);
+   }
+
+   const manifest = await updateManifest(appVersion.channel, versionText, description, getAssetUrls(release));
+   return getReleaseResult(release, appVersion.channel, manifest);
+}
+
+async function publishCommand(tag?: string): Promise<ReleaseResult | DryRunResult> {
+   const releases = (await getReleases()).filter(isStagedRelease);
+   if (releases.length === 0) throw new Error("There are no draft or prerelease releases to publish");
+
+   let release = tag ? releases.find((x) => x.release.tag === tag) : undefined;
+   if (tag && !release) throw new Error(`Release with tag ${tag} was not found or is already published`);
+
+   if (!release) {
+      release = await select(
+         {
+            message: "Select a release to publish:",
+            choices: releases.map((x) => ({
+               name: `${versionToString(x.version)} ${getChannelText(x.channel)} ${colors.gray(x.release.draft ? "(draft)" : "(prerelease)")}`,
+               value: x,
+            })),
+         },
+         getPromptContext()
+      );
+   }
+
+   if (isDryRun) {
+      return reportDryRun(
+         `Publishing release ${release.release.tag}`,
+         [
+            `make ${publisher.name} release ${release.release.tag} public${release.channel.prerelease ? " as a prerelease" : ""}`,
+            `write manifest ${release.channel.manifestFileName}:`,
+         ],
+         await getReleaseManifest(release)
+      );
+   }
+
+   const published = await publisher.publishRelease(release.release, release.channel.prerelease);
+   logger.releasePublished(published.tag);
+
+   // The notes could have been edited while the release was a draft, so the manifest uses the published ones
+   const manifest = await getReleaseManifest({ ...release, release: published });
+   await publishManifest(release.channel, manifest);
+
+   return getReleaseResult(published, release.channel, manifest);
+}
+
+async function promoteCommand(
+   version?: string,
+   fromName?: string,
+   toName?: string,
+   notes?: string,
+   notesFile?: string
+): Promise<ReleaseResult | DryRunResult> {
+   const fromChannel = fromName ? getChannel(fromName, config.channels) : undefined;
+   const appVersion = await selectVersion("Select the build to promote:", version, fromChannel);
+   const versionText = versionToString(appVersion.version);
+
+   if (appVersion.channel.mode !== BuildMode.RELEASE) {
+      throw new Error(
+         `Only builds made in release mode can be promoted, ${appVersion.channel.name} builds are made in ${appVersion.channel.mode} mode`
+      );
+   }
+
+   const toChannel = toName
+      ? getChannel(toName, config.channels)
+      : await select(
+           {
+              message: "Select the channel to promote to:",
+              choices: config.channels
+                 .filter((x) => x.name !== appVersion.channel.name && x.mode === BuildMode.RELEASE)
+                 .map((x) => ({ name: getChannelText(x), value: x })),
+           },
+           getPromptContext()
+        );
+
+   if (toChannel.name === appVersion.channel.name) throw new Error(`${versionText} is already a ${toChannel.name} build`);
+   if (toChannel.mode !== BuildMode.RELEASE)
+      throw new Error(`${toChannel.name} builds are made in ${toChannel.mode} mode, a release build can't be promoted to it`);
+
+   // Updaters of the channel only install versions newer than the one they have
+   const latestVersion = await getLatestVersion(toChannel);
+   if (latestVersion && compareVersions(appVersion.version, latestVersion) <= 0) {
+      throw new Error(`${versionText} is not newer than the latest ${toChannel.name} version ${versionToString(latestVersion)}`);
+   }
+
+   const versionPath = getVersionPath(versionText, appVersion.channel);
+   const description = await getDescription(versionText, toChannel, versionPath, notes, notesFile);
+
+   if (isDryRun) return await planRelease(versionText, toChannel, description, { versionPath });
+
+   logger.promotingBuild(versionText, appVersion.channel, toChannel);
+
+   const release = await createRelease(versionText, toChannel, description, { versionPath });
+   const manifest = await updateManifest(toChannel, versionText, description, getAssetUrls(release), versionPath);
+   await recordPromotion(versionPath, versionText, toChannel);
+
+   logger.buildPromoted(versionText, appVersion.channel, toChannel);
+
+   return getReleaseResult(release, toChannel, manifest);
+}
+
+async function deleteCommand(version?: string, channelName?: string, targets?: DeleteTarget[], skipConfirmation: boolean = false) {
+   const channel = channelName ? getChannel(channelName, config.channels) : undefined;
+   const appVersion = await selectVersion("Select the version to delete:", version, channel, true);
+
+   return await deleteVersion(appVersion, targets, skipConfirmation);
+}
+
+async function deleteReleaseCommand(tag?: string, skipConfirmation: boolean = false) {
+   const versions = await getReleases();
+
+   let release = tag ? versions.find((x) => x.release.tag === tag) : undefined;
+   if (tag && !release) throw new Error(`Release with tag ${tag} was not found`);
+
+   if (!release) {
+      release = await select(
+         {
+            message: "Select a release to delete:",
+            choices: versions.map((v) => ({ name: `${versionToString(v.version)} ${getChannelText(v.channel)}`, value: v })),
+         },
+         getPromptContext()
+      );
+   }
+
+   const targets = publisher.deleteTag ? [DeleteTarget.RELEASE, DeleteTarget.TAG] : [DeleteTarget.RELEASE];
+   return await deleteVersion(release, targets, skipConfirmation);
+}
+
+async function deleteBuildCommand(version?: string, channelName?: string, skipConfirmation: boolean = false) {
+   const channel = channelName ? getChannel(channelName, config.channels) : undefined;
+   const appVersion = await selectVersion("Select the version to delete:", version, channel);
+
+   return await deleteVersion(appVersion, [DeleteTarget.BUILD], skipConfirmation);
+}
+
+async function rollbackCommand(
+   channelName?: string,
+   version?: string,
+   skipConfirmation: boolean = false
+): Promise<RollbackResult | DryRunResult | undefined> {
+   const channel = channelName
+      ? getChannel(channelName, config.channels)
+      : await select(
+           {
+              message: "Select the channel to roll back:",
+              choices: config.channels.map((x) => ({ name: getChannelText(x), value: x })),
+           },
+           getPromptContext()
+        );
+
+   const currentManifest = await publisher.readManifest(channel.manifestFileName);
+
+   // The newest entry of every version the manifest doesn't already point to
+   const entries = (await readManifestHistory(config.buildsPath))
+      .filter((x) => x.channel === channel.name && x.version !== currentManifest?.version)
+      .reverse()
+      .filter((x, i, all) => all.findIndex((y) => y.version === x.version) === i);
+
+   if (entries.length === 0) throw new Error(`The manifest history has no earlier ${channel.name} manifests to roll back to`);
+
+   let entry = version ? entries.find((x) => x.version === version) : undefined;
+   if (version && !entry) throw new Error(`${version} is not in the ${channel.name} manifest history`);
+
+   if (!entry) {
+      entry = await select(
+         {
+            message: `Select the version to roll ${channel.manifestFileName} back to:`,
+            choices: entries.map((x) => ({ name: `${x.version} ${colors.gray(`(published ${x.date})`)}`, value: x })),
+         },
+         getPromptContext()
+      );
+   }
+
+   // The manifest would send updaters to files that don't exist if its release was deleted since
+   const tag = getTagName(entry.version, channel);
+   const release = (await publisher.listReleases()).find((x) => x.tag === tag);
+   if (!release) throw new Error(`Release ${tag} no longer exists, rolling back to it would send updaters to missing files`);
+   if (release.draft) throw new Error(`Release ${tag} is a draft, publish it before rolling back to it`);
+
+   const changes = getManifestChanges(currentManifest, entry.manifest);
+
+   if (isDryRun) {
+      const result = reportDryRun(`Rolling back ${getChannelText(channel)}`, [
+         `write manifest ${channel.manifestFileName} pointing to ${entry.version} instead of ${currentManifest?.version ?? "nothing"}`,
+      ]);
+      logger.manifestChanges(channel.manifestFileName, changes);
+
+      return { ...result, manifest: entry.manifest };
+   }
+
+   logger.manifestChanges(channel.manifestFileName, changes);
+   if (
+      !skipConfirmation &&
+      !(await confirm({ message: `Roll ${channel.manifestFileName} back to ${entry.version}?`, default: false }, getPromptContext()))
+   )
+      return;
+
+   await publishManifest(channel, entry.manifest);
+
+   return { channel: channel.name, from: currentManifest?.version, to: entry.version, manifest: entry.manifest };
+}
+
+async function pruneCommand(
+   channelName?: string,
+   skipConfirmation: boolean = false
+): Promise<DeleteResult[] | DryRunResult | undefined> {
+   const channels = channelName ? [getChannel(channelName, config.channels)] : config.channels.filter((x) => x.retention);
+   if (channels.length === 0) throw new Error(`No channel has retention rules, set "retention" of a channel in the config file`);
+
+   const builds = await getVersions(config.buildsPath, config.channels);
+   const releases = await getReleases();
+   const liveTags = await getLiveTags();
+
+   const removals: { appVersion: AppVersion; targets: DeleteTarget[]; release?: PublisherRelease }[] = [];
+   const steps: string[] = [];
+
+   for (const channel of channels) {
+      if (!channel.retention) throw new Error(`${channel.name} has no retention rules, set "channels.${channel.name}.retention"`);
+
+      const channelBuilds = builds.filter((x) => x.channel.name === channel.name);
+      const channelReleases = releases.filter((x) => x.channel.name === channel.name);
+      const versions = [...channelBuilds, ...channelReleases]
+         .map((x) => x.version)
+         .filter((x, i, all) => all.findIndex((y) => compareVersions(x, y) === 0) === i);
+
+      for (const version of getUnretainedVersions(channel.retention, versions)) {
+         const versionText = versionToString(version);
+         const tag = getTagName(versionText, channel);
+         const build = channelBuilds.find((x) => compareVersions(x.version, version) === 0);
+         const release = channelReleases.find((x) => x.release.tag === tag);
+
+         // Updaters download the live version's files, and a build promoted to a live release is its source
+         const promotions = build ? await readPromotions(getVersionPath(versionText, channel)) : [];
+         const liveTag = [tag, ...promotions.map((x) => x.tag)].find((x) => liveTags.includes(x));
+         if (liveTag) {
+            logger.pruneSkipped(versionText, channel, `${liveTag} is live`);
+            continue;
+         }
+
+         if (release && isStagedRelease(release)) {
+            logger.pruneSkipped(versionText, channel, `${tag} is not published yet`);
+            continue;
+         }
+
+         const targets = [
+            release && DeleteTarget.RELEASE,
+            release && publisher.deleteTag && DeleteTarget.TAG,
+            build && DeleteTarget.BUILD,
+         ].filter((x) => typeof x === "string");
+
+         removals.push({ appVersion: { channel, version }, targets, release: release?.release });
+         steps.push(
+            `${versionText} ${getChannelText(channel)}: ${targets.map((x) => getPruneStep(x, versionText, channel)).join(", ")}`
+         );
+      }
+   }
+
+   if (removals.length === 0) {
+      logger.nothingToPrune();
+      return [];
+   }
+
+   if (isDryRun) return reportDryRun("Pruning", steps);
+
+   logger.prunePlan(steps);
+   if (!skipConfirmation && !(await confirm({ message: `Delete ${removals.length} versions?`, default: false }, getPromptContext())))
+      return;
+
+   const results: DeleteResult[] = [];
+   for (const removal of removals) results.push(await removeVersion(removal.appVersion, removal.targets, removal.release));
+   logger.pruneCompleted(removals.length);
+
+   return results;
+}
+
+/**
+ * @returns what pruning a target of a version does, such as delete release v0.3.0
+ */
+function getPruneStep(target: DeleteTarget, version: string, channel: Channel): string {
+   if (target === DeleteTarget.RELEASE) return `delete ${publisher.name} release ${getTagName(version, channel)}`;
+   if (target === DeleteTarget.TAG) return `delete tag ${getTagName(version, channel)}`;
+   return `remove ${getVersionPath(version, channel)}`;
+}
+
+/**
+ * @returns the tag of the version every channel's manifest points to
+ */
+async function getLiveTags(): Promise<string[]> {
+   const tags: string[] = [];
+
+   for (const channel of config.channels) {
+      const manifest = await publisher.readManifest(channel.manifestFileName);
+      if (manifest) tags.push(getTagName(manifest.version, channel));
+   }
+
+   return tags;
+}
+
+async function serveCommand(hostname: string, port: number) {
+   const server = startUpdateServer(config, hostname, port);
+   const url = server.url.href.replace(/\/$/, "");
+   logger.serverStarted(url, config.channels);
+
+   // The command never finishes, so its result is printed once the server is listening
+   printResult({ url, manifests: config.channels.map((x) => ({ channel: x.name, url: `${url}/${x.manifestFileName}` })) });
+
+   // Keep serving until the process is stopped
+   await new Promise(() => {});
+}
+
+async function statusCommand() {
+   const builds = await getVersions(config.buildsPath, config.channels);
+   const releases = await getReleases();
+   const statuses: ChannelStatus[] = [];
+
+   for (const channel of config.channels) {
+      const manifest = await publisher.readManifest(channel.manifestFileName);
+      const status = await getChannelStatus(channel, config.buildsPath, builds, releases, manifest);
+
+      logger.channelStatus(status);
+      statuses.push(status);
+   }
+
+   return statuses.map((x) => ({ ...x, channel: x.channel.name }));
+}
+
+async function channelsCommand() {
+   const versions: { channel: string; version?: string; publishDate?: string }[] = [];
+
+   for (const channel of config.channels) {
+      const manifest = await publisher.readManifest(channel.manifestFileName);
+
+      logger.channelVersion(channel, manifest?.version, manifest?.pub_date);
+      versions.push({ channel: channel.name, version: manifest?.version, publishDate: manifest?.pub_date });
+   }
+
+   return versions;
+}
 
-   await rm(path.resolve(BUILDS_PATH, versionToString(version.version) + getVersionSuffix(version.type)), {
-      force: true,
-      recursive: true,
+/**
+ * @returns every published release that belongs to a channel, newest first
+ */
+async function getReleases(): Promise<ReleaseVersion[]> {
+   const releases = await publisher.listReleases();
+
+   const versions = releases.flatMap<ReleaseVersion>((x) => {
+      const channel = getTagChannel(x.tag, config.channels);
+      const versionText = x.tag.slice(0, x.tag.length - (channel?.tagSuffix.length ?? 0));
+      if (!channel || !isValidVersion(versionText)) return [];
+
+      return [{ channel, version: stringToVersion(versionText), release: x }];
    });
 
-   logger.versionDeleted(versionToString(version.version), version.type);
+   return versions.sort((v1, v2) => compareVersions(v1.version, v2.version)).reverse();
+}
+
+/**
+ * @returns the markdown release notes given as an option or read from a file. Otherwise they are generated from the commits
+ * since the channel's previous release and opened in the editor
+ */
+async function getDescription(
+   version: string,
+   channel: Channel,
+   versionPath: string,
+   notes?: string,
+   notesFile?: string
+): Promise<string> {
+   if (notes !== undefined) return notes;
+   if (notesFile) return await Bun.file(notesFile).text();
+
+   // Drafts have no tag in the repository until they are published
+   const previousRelease = (await getReleases()).find(
+      (x) => x.channel.name === channel.name && !x.release.draft && compareVersions(x.version, stringToVersion(version)) < 0
+   );
+
+   const previousTag = previousRelease?.release.tag;
+   let commits: GitCommit[] = [];
+
+   if (previousTag && !(await hasRef(config.appPath, previousTag))) logger.previousTagMissing(previousTag);
+   else commits = await getCommits(config.appPath, (await readBuildInfo(versionPath))?.commit ?? "HEAD", previousTag);
+
+   logger.releaseNotesGenerated(commits.length, previousTag);
+
+   return await editor(
+      {
+         message: "Edit the release notes, only their features, fixes and breaking changes are shown by the updater:",
+         default: generateReleaseNotes(commits),
+         postfix: ".md",
+         waitForUseInput: false,
+      },
+      getPromptContext()
+   );
+}
+
+/**
+ * @returns when and from which commit a version was built, empty for releases and builds without a build.json
+ */
+function getBuildInfoText(version: BuildVersion): string {
+   if (!version.info) return "";
+
+   const date = new Date(version.info.date).toLocaleString();
+   return colors.gray(`(built ${date}${version.info.commit ? ` from ${version.info.commit.slice(0, 7)}` : ""})`);
+}
+
+/**
+ * @returns the build folder of a version
+ */
+function getVersionPath(version: string, channel: Channel): string {
+   return path.resolve(config.buildsPath, getBuildFolderName(version, channel));
+}
+
+/**
+ * @returns the newest version of a channel that is either released or built locally
+ */
+async function getLatestVersion(channel: Channel): Promise<Version | undefined> {
+   const versions = [...(await getReleases()), ...(await getVersions(config.buildsPath, config.channels))]
+      .filter((x) => x.channel.name === channel.name)
+      .map((x) => x.version);
+
+   return versions.sort(compareVersions).reverse()[0];
+}
+
+/**
+ * @returns the local build matching the given version and channel, prompting for the ones that are not specified.
+ * Versions that are only released and not built locally can be included as well
+ */
+async function selectVersion(
+   message: string,
+   version?: string,
+   channel?: Channel,
+   includeReleases: boolean = false
+): Promise<AppVersion> {
+   const builds = await getVersions(config.buildsPath, config.channels);
+   const releases = includeReleases ? await getReleases() : [];
+
+   const versions = [
+      ...builds,
+      ...releases.filter((r) => !builds.some((b) => b.channel.name === r.channel.name && compareVersions(b.version, r.version) === 0)),
+   ]
+      .filter((x) => (!version || versionToString(x.version) === version) && (!channel || x.channel.name === channel.name))
+      .sort((v1, v2) => compareVersions(v2.version, v1.version));
+
+   if (versions.length === 0)
+      throw new Error(`No ${includeReleases ? "builds or releases" : "builds"} were found for version ${version ?? "any"}`);
+   if (version && versions.length === 1) return versions[0];
+
+   return await select(
+      {
+         message: message,
+         choices: versions.map((v) => ({
+            name: `${versionToString(v.version)} ${getChannelText(v.channel)} ${getBuildInfoText(v)}`.trimEnd(),
+            value: v,
+         })),
+      },
+      getPromptContext()
+   );
+}
+
+/**
+ * Deletes any combination of a version's local build, release, tag and manifest after confirming exactly what will be removed.
+ * A manifest that points to the deleted release is only left orphaned after asking
+ */
+async function deleteVersion(
+   appVersion: AppVersion,
+   targets: DeleteTarget[] | undefined,
+   skipConfirmation: boolean
+): Promise<DeleteResult | DryRunResult | undefined> {
+   const version = versionToString(appVersion.version);
+   const channel = appVersion.channel;
+   const tag = getTagName(version, channel);
+   const versionPath = getVersionPath(version, channel);
+
+   const releases = (await getReleases()).filter((x) => x.channel.name === channel.name);
+   const release = releases.find((x) => x.release.tag === tag);
+   const previousRelease = releases.find((x) => compareVersions(x.version, appVersion.version) < 0 && !isStagedRelease(x));
+   const isManifestPointing = (await publisher.readManifest(channel.manifestFileName))?.version === version;
+
+   // Why each target can't be deleted, if it can't
+   const unavailable: Record<DeleteTarget, string | undefined> = {
+      [DeleteTarget.BUILD]: existsSync(versionPath) ? undefined : `${versionPath} does not exist`,
+      [DeleteTarget.RELEASE]: release ? undefined : `Release ${tag} was not found`,
+      [DeleteTarget.TAG]: publisher.deleteTag ? undefined : `The ${publisher.name} publisher has no tags`,
+      [DeleteTarget.MANIFEST]: !isManifestPointing
+         ? `${channel.manifestFileName} does not point to ${version}`
+         : !previousRelease
+           ? `No ${channel.name} release older than ${version} was found to move ${channel.manifestFileName} back to`
+           : undefined,
+   };
+
+   if (!targets) {
+      targets = await checkbox(
+         {
+            message: `Select what to delete for ${version} ${getChannelText(channel)}:`,
+            choices: Object.values(DeleteTarget)
+               .filter((x) => !unavailable[x])
+               .map((x) => ({ name: x, value: x, checked: x !== DeleteTarget.MANIFEST })),
+            required: true,
+         },
+         getPromptContext()
+      );
+   }
+
+   for (const target of targets) {
+      if (unavailable[target]) throw new Error(unavailable[target]);
+   }
+
+   // Deleting the release of a version the manifest points to would make updaters download files that don't exist
+   if (targets.includes(DeleteTarget.RELEASE) && isManifestPointing && !targets.includes(DeleteTarget.MANIFEST)) {
+      // Without a prompt the manifest is always moved, it is only left orphaned when someone chooses to
+      if (!previousRelease && skipConfirmation) {
+         throw new Error(
+            `${channel.manifestFileName} points to ${version} and there is no earlier ${channel.name} release to move it back to, delete without --yes to leave it pointing to a deleted release`
+         );
+      }
+
+      const shouldMove =
+         previousRelease &&
+         (skipConfirmation ||
+            (await confirm(
+               {
+                  message: `${channel.manifestFileName} points to ${version}, move it back to ${versionToString(previousRelease.version)}?`,
+                  default: true,
+               },
+               getPromptContext()
+            )));
+
+      if (shouldMove) targets.push(DeleteTarget.MANIFEST);
+      else logger.manifestOrphaned(channel.manifestFileName, version);
+   }
+
+   const steps = [
+      targets.includes(DeleteTarget.MANIFEST) &&
+         `move manifest ${channel.manifestFileName} from ${version} back to ${versionToString(previousRelease!.version)}`,
+      targets.includes(DeleteTarget.RELEASE) &&
+         `delete ${publisher.name} release ${tag} with ${release!.release.assets.length} assets`,
+      targets.includes(DeleteTarget.TAG) && `delete tag ${tag}`,
+      targets.includes(DeleteTarget.BUILD) &&
+         `remove ${versionPath} (${(await readdir(versionPath, { recursive: true })).length} files and folders)`,
+   ].filter((x) => typeof x === "string");
+
+   if (isDryRun) return reportDryRun(`Deleting version ${version} ${getChannelText(channel)}`, steps);
+
+   if (!skipConfirmation) {
+      logger.deletionPlan(version, channel, steps);
+      if (!(await confirm({ message: "Delete these?", default: false }, getPromptContext()))) return;
+   }
+
+   // The manifest is moved first so it never points to a release that is already deleted
+   if (targets.includes(DeleteTarget.MANIFEST)) {
+      await publishManifest(channel, await getReleaseManifest(previousRelease!));
+   }
+
+   return await removeVersion(appVersion, targets, release?.release);
+}
+
+/**
+ * Deletes the release, the tag and the build of a version that are among the targets, in that order
+ */
+async function removeVersion(appVersion: AppVersion, targets: DeleteTarget[], release?: PublisherRelease): Promise<DeleteResult> {
+   const version = versionToString(appVersion.version);
+   const tag = getTagName(version, appVersion.channel);
+
+   if (targets.includes(DeleteTarget.RELEASE)) {
+      await publisher.deleteRelease(release!);
+      logger.releaseDeleted(version, appVersion.channel);
+   }
+
+   if (targets.includes(DeleteTarget.TAG)) {
+      await publisher.deleteTag!(tag);
+      await deleteTag(config.appPath, tag);
+      logger.tagDeleted(tag);
+   }
+
+   if (targets.includes(DeleteTarget.BUILD)) {
+      await rm(getVersionPath(version, appVersion.channel), { force: true, recursive: true });
+      logger.versionDeleted(version, appVersion.channel);
+   }
+
+   return { version, channel: appVersion.channel.name, deleted: targets };
 }
 
-async function buildVersion(version: string, type: BuildType) {
+/**
+ * Prints what building a version would change, resolving the version files the same way a build does
+ */
+async function planBuild(newVersion: string, channel: Channel, options: BuildOptions): Promise<DryRunResult> {
+   const newVersionPath = getVersionPath(newVersion, channel);
+   if (existsSync(newVersionPath)) throw new Error(`${newVersionPath} already exists`);
+
+   const versionFileChanges = await getVersionFileChanges(config.versionFiles, newVersion);
+   const tauriBuildPath = channel.mode === BuildMode.DEBUG ? config.tauriDebugBuildPath : config.tauriReleaseBuildPath;
+
+   const result = reportDryRun(
+      `Building version ${newVersion} ${getChannelText(channel)}`,
+      [
+         `create ${newVersionPath}`,
+         ...versionFileChanges.filter((x) => x.oldText !== x.newText).map((x) => `write version ${newVersion} to ${x.path}`),
+         `run ${getTauriBuildCommand(channel.mode).join(" ")} in ${config.appPath}, logging to ${path.resolve(newVersionPath, "build.log")}`,
+         `copy the updater bundles and .sig files of ${newVersion} from ${tauriBuildPath} to ${newVersionPath}`,
+         `write ${path.resolve(newVersionPath, CHECKSUMS_FILE_NAME)}`,
+         !options.isDirty &&
+            (options.commitVersionBump
+               ? `commit the version files and their lockfiles as "${getVersionBumpMessage(newVersion)}" in ${config.appPath}`
+               : `revert the version files and their lockfiles in ${config.appPath}`),
+         `write ${path.resolve(newVersionPath, BUILD_INFO_FILE_NAME)}${options.isDirty || !options.commitVersionBump ? " without a commit" : " with the hash of that commit"}`,
+      ].filter((x) => typeof x === "string")
+   );
+   logger.versionFileChanges(versionFileChanges);
+
+   return result;
+}
+
+/**
+ * Builds the app as a transaction, if anything fails the version files are restored and the version's build folder is removed
+ */
+async function buildVersion(newVersion: string, channel: Channel, options: BuildOptions): Promise<BuildResult> {
+   const newVersionPath = getVersionPath(newVersion, channel);
+
+   // Everything that has to be undone if the build fails
+   let versionFileChanges: VersionFileChange[] = [];
+   let isVersionPathCreated = false;
+
+   // Lockfiles that exist before the build are tracked, as the tree is clean, so their changes belong to the version bump
+   const lockFilePaths = getLockFilePaths(config.versionFiles).filter((x) => existsSync(x));
+
    try {
-      const versions = await getVersions();
-      const newVersion = getPatchedVersion(version, versions);
-      const newVersionPath = path.resolve(BUILDS_PATH, newVersion + getVersionSuffix(type));
+      logger.startingBuild(newVersion, channel);
 
-      logger.startingBuild(newVersion, type);
+      // Create a directory for the new version first, this fails if the version was already built so it is never removed by a rollback
+      await mkdir(newVersionPath);
+      isVersionPathCreated = true;
+
+      // Preview the new version of every version file before writing them
+      versionFileChanges = await getVersionFileChanges(config.versionFiles, newVersion);
 
       logger.versionFieldsUpdated(newVersion);
-      // Update the version numbers in cargo.toml and package.json
-      await writeCargoTomlVersion(CARGO_TOML_PATH, newVersion);
-      await writePackageJsonVersion(PACKAGE_JSON_PATH, newVersion);
+      logger.versionFileChanges(versionFileChanges);
 
-      logger.buildingApp(newVersion);
+      await writeVersionFileChanges(versionFileChanges);
 
-      // Set environment variables for tauri
-      $.env({
-         ...process.env,
-         TAURI_PRIVATE_KEY: process.env.TAURI_PRIVATE_KEY,
-         TAURI_KEY_PASSWORD: process.env.TAURI_KEY_PASSWORD,
-      });
+      logger.buildingApp(newVersion);
 
-      // Run the build script and log the result
-      let result: ShellOutput;
+      // Run the build script, streaming its output to the console and build.log
+      const logPath = path.resolve(newVersionPath, "build.log");
+      const result = await runTauriBuild(config.appPath, channel.mode, logPath, logger.buildOutput);
 
-      if (type === BuildType.DEBUG) result = await $`cd ../huginn-app-react && bun tauri-build --debug`.quiet();
-      else result = await $`cd ../huginn-app-react && bun tauri-build`.quiet();
+      if (result.exitCode !== 0) {
+         logger.buildFailed(result, logPath);
+         throw new Error(`tauri-build exited with code ${result.exitCode}`);
+      }
 
+      logger.appBuilt(result, logPath);
       logger.copyingBuildFiles(newVersionPath);
 
-      // Create a directory for the new version
-      await mkdir(newVersionPath);
+      const tauriBuildPath = channel.mode === BuildMode.DEBUG ? config.tauriDebugBuildPath : config.tauriReleaseBuildPath;
+      const artifacts = await getBuildFiles(tauriBuildPath, newVersion, getTauriBuildArch(tauriBuildPath));
+
+      // Copy every bundle and its .sig file to a folder of its platform in our new version's folder
+      for (const artifact of artifacts) {
+         const platformPath = path.resolve(newVersionPath, artifact.target);
+         await mkdir(platformPath);
+
+         await Bun.write(path.resolve(platformPath, artifact.bundleFile.name), Bun.file(artifact.bundleFile.path));
+         await Bun.write(path.resolve(platformPath, artifact.sigFile.name), Bun.file(artifact.sigFile.path));
+      }
+
+      // Hash the copies, so publishing can tell if anything changed since the build
+      const copiedArtifacts = await getBuildFiles(newVersionPath, newVersion);
+      const checksumsPath = await writeChecksums(newVersionPath, copiedArtifacts);
+      logger.checksumsWritten(checksumsPath);
 
-      const files = await getBuildFiles(type === BuildType.DEBUG ? TAURI_DEBUG_BUILD_PATH : TAURI_RELEASE_BUILD_PATH, newVersion);
+      let commit: string | undefined;
+      if (!options.isDirty) {
+         const repoRoot = await getRepoRoot(config.appPath);
+         const changedPaths = (await getUncommittedFiles(config.appPath)).map((x) => path.resolve(repoRoot, x));
+         const bumpPaths = [...versionFileChanges.map((x) => path.resolve(x.path)), ...lockFilePaths].filter((x) =>
+            changedPaths.includes(x)
+         );
 
-      // Get blob for both .zip and .sig files
-      const zipFile = Bun.file(files.zipFile.path);
-      const sigFile = Bun.file(files.sigFile.path);
+         if (options.commitVersionBump) {
+            commit =
+               bumpPaths.length > 0
+                  ? await commitFiles(config.appPath, bumpPaths, getVersionBumpMessage(newVersion))
+                  : await getHeadCommit(config.appPath);
+            logger.buildCommitRecorded(commit, bumpPaths.length > 0);
+         } else if (bumpPaths.length > 0) {
+            // The built source with its version bump isn't any commit, so the bump is undone instead of tagging the commit before it
+            await restoreFiles(config.appPath, bumpPaths);
+            logger.versionBumpReverted(bumpPaths);
+         }
 
-      // Copy .zip and .sig files to our new version's folder
-      await Bun.write(path.resolve(newVersionPath, files.zipFile.name), zipFile);
-      await Bun.write(path.resolve(newVersionPath, files.sigFile.name), sigFile);
+         // The version bump is either part of the repository's history or reverted, so a rollback must not undo it
+         versionFileChanges = [];
 
-      logger.buildCompleted(newVersion, type);
+         // A file edited while the app was building may or may not be in the build, so no commit matches it
+         const otherPaths = changedPaths.filter((x) => !bumpPaths.includes(x));
+         if (otherPaths.length > 0) {
+            logger.filesChangedDuringBuild(otherPaths);
+            commit = undefined;
+         }
+      }
+
+      const buildInfoPath = await writeBuildInfo(newVersionPath, config.appPath, copiedArtifacts, {
+         version: newVersion,
+         channel: channel.name,
+         mode: channel.mode,
+         commit,
+         date: new Date().toISOString(),
+         duration: result.duration,
+      });
+      logger.buildInfoWritten(buildInfoPath);
+
+      logger.buildCompleted(newVersion, channel);
+
+      return {
+         version: newVersion,
+         channel: channel.name,
+         path: newVersionPath,
+         skipped: false,
+         info: await readBuildInfo(newVersionPath),
+      };
    } catch (e) {
-      consola.error("Something went wrong... ");
+      logger.buildInterrupted();
+      await rollbackBuild(versionFileChanges, isVersionPathCreated ? newVersionPath : undefined);
       throw e;
    }
 }
 
-async function createGithubRelease(version: string, type: BuildType, description: string) {
-   logger.creatingRelease(version, type);
+/**
+ * Restores the version files and removes the partial build folder of a failed build
+ */
+async function rollbackBuild(versionFileChanges: VersionFileChange[], versionPath?: string) {
+   const restoredFiles: string[] = [];
+   let isFolderRemoved = false;
+
+   for (const change of versionFileChanges.filter((x) => x.oldText !== x.newText)) {
+      try {
+         await restoreVersionFile(change);
+         restoredFiles.push(change.path);
+      } catch (e) {
+         logger.rollbackFailed(change.path, e);
+      }
+   }
+
+   if (versionPath) {
+      // The build log is kept outside of the removed folder so the failure can still be looked into
+      const logPath = path.resolve(versionPath, "build.log");
+      if (await Bun.file(logPath).exists()) {
+         const keptLogPath = path.resolve(tmpdir(), `huginn-bundler-${path.basename(versionPath)}.log`);
+         await Bun.write(keptLogPath, Bun.file(logPath));
+         logger.buildLogKept(keptLogPath);
+      }
+
+      try {
+         await rm(versionPath, { force: true, recursive: true });
+         isFolderRemoved = true;
+      } catch (e) {
+         logger.rollbackFailed(versionPath, e);
+      }
+   }
+
+   logger.buildRolledBack(restoredFiles, isFolderRemoved ? versionPath : undefined);
+}
+
+/**
+ * @returns the release as the publisher lists it once every asset is uploaded
+ */
+async function createRelease(
+   version: string,
+   channel: Channel,
+   description: string,
+   options: ReleaseOptions = {}
+): Promise<PublisherRelease> {
+   const versionPath = options.versionPath ?? getVersionPath(version, channel);
+
+   // Get build files from the build folder and make sure they are the ones that were built before publishing anything
+   const artifacts = await getBuildFiles(versionPath, version);
+
+   await verifyBuildFiles(versionPath, artifacts, config.updaterPublicKey);
+   logger.buildFilesVerified(artifacts.length * 2);
+
+   logger.creatingRelease(version, channel, publisher.name);
 
    // Create the release with a description
-   const releaseName = type === BuildType.DEBUG ? `v${version}-dev` : `v${version}`;
+   const releaseName = getTagName(version, channel);
+   const commit = (await readBuildInfo(versionPath))?.commit;
+   if (commit) await verifyCommitPushed(commit);
 
-   const release = await octokit.rest.repos.createRelease({
-      owner: "WerdoxDev",
-      repo: REPO,
+   // Tag the commit the build was made from, builds without one fall back to the target branch
+   const release = await publisher.createRelease({
       name: releaseName,
-      tag_name: releaseName,
-      target_commitish: "master",
+      tag: releaseName,
+      targetCommitish: commit ?? config.targetBranch,
       body: description,
+      prerelease: channel.prerelease || !!options.prerelease,
+      draft: !!options.draft,
    });
 
-   // Get build files from debug or release folders
-   const files = await getBuildFiles(path.resolve(BUILDS_PATH, version + getVersionSuffix(type)), version);
+   const assetNames: string[] = [];
+   let uploadedRelease: PublisherRelease | undefined;
 
    logger.uploadingReleaseFiles();
-   // Convert build files to strings
-   const zipFileString = await Bun.file(files.zipFile.path).arrayBuffer();
-   const sigFileString = await Bun.file(files.sigFile.path).text();
-
-   // Upload both .zip and .sig files to the release
-   await octokit.rest.repos.uploadReleaseAsset({
-      name: files.zipFile.name,
-      release_id: release.data.id,
-      owner: "WerdoxDev",
-      repo: REPO,
-      data: zipFileString as unknown as string,
-      headers: { "content-type": "application/zip" },
-   });
 
-   await octokit.rest.repos.uploadReleaseAsset({
-      name: files.sigFile.name,
-      release_id: release.data.id,
-      owner: "WerdoxDev",
-      repo: REPO,
-      data: sigFileString,
-   });
+   // Upload the bundle and .sig file of every platform to the release
+   try {
+      for (const artifact of artifacts) {
+         for (const [file, contentType] of [
+            [artifact.bundleFile, getBundleContentType(artifact.bundleFile.name)],
+            [artifact.sigFile, "text/plain"],
+         ] as const) {
+            await uploadAssetWithRetry(
+               publisher,
+               release,
+               file,
+               contentType,
+               (uploadedBytes, totalBytes) => logger.uploadProgress(file.name, uploadedBytes, totalBytes),
+               (attempt, delay, error) => logger.uploadRetrying(file.name, attempt, delay, error)
+            );
 
-   logger.releaseCreated(version, type);
+            assetNames.push(file.name);
+            logger.assetUploaded(file.name, Bun.file(file.path).size);
+         }
+      }
+
+      // Make sure the publisher lists every asset before anything points to the release
+      uploadedRelease = (await publisher.listReleases()).find((x) => x.tag === release.tag);
+      const missingNames = assetNames.filter((x) => !uploadedRelease?.assets.some((y) => y.name === x));
+      if (missingNames.length > 0) throw new Error(`${release.tag} is missing ${missingNames.join(", ")} after uploading`);
+   } catch (e) {
+      // A release with only some of its assets would be public and broken, so it is removed to be released again
+      await rollbackRelease(release);
+      throw e;
+   }
+
+   // Mirror the tag in the app's repository, so the next release's notes can be generated from it
+   if (commit && !(await hasRef(config.appPath, `refs/tags/${release.tag}`))) {
+      await createTag(config.appPath, release.tag, commit);
+      logger.localTagCreated(release.tag, commit);
+   }
+
+   logger.releaseCreated(version, channel);
+
+   return uploadedRelease!;
 }
 
-async function updateGistFile(type: BuildType, version: string, description: string) {
-   const files = await getBuildFiles(path.resolve(BUILDS_PATH, version + getVersionSuffix(type)), version);
+function getVersionBumpMessage(version: string): string {
+   return `chore: bump version to ${version}`;
+}
 
-   const sigFileString = await Bun.file(files.sigFile.path).text();
-   const publishDate = new Date(Bun.file(files.zipFile.path).lastModified).toISOString();
+/**
+ * Makes sure a publisher with tags can tag the commit a build was made from, its repository only has the commits that were pushed
+ */
+async function verifyCommitPushed(commit: string) {
+   if (!publisher.deleteTag || (await isCommitPushed(config.appPath, commit))) return;
 
-   const url = `https://github.com/WerdoxDev/${REPO}/releases/download/v${
-      version + (type === BuildType.DEBUG ? "-dev" : "")
-   }/Huginn_${version}_x64-setup.nsis.zip`;
+   throw new Error(
+      `${commit.slice(0, 7)} is not on any remote branch, push it first so the ${publisher.name} release can be tagged at it (or fetch if it was pushed elsewhere)`
+   );
+}
 
-   const content: UpdateFileInfo = {
-      version: `${version}`,
-      pub_date: publishDate,
-      notes: description,
-      platforms: {
-         "windows-x86_64": { signature: sigFileString, url: url },
-      },
+/**
+ * @returns whether a release still has to be published, either as a draft or a prerelease of a channel that isn't one
+ */
+function isStagedRelease(releaseVersion: ReleaseVersion): boolean {
+   return releaseVersion.release.draft || releaseVersion.release.prerelease !== releaseVersion.channel.prerelease;
+}
+
+/**
+ * Removes a release whose assets could not all be uploaded, together with its tag
+ */
+async function rollbackRelease(release: PublisherRelease) {
+   try {
+      await publisher.deleteRelease(release);
+      await publisher.deleteTag?.(release.tag);
+
+      logger.releaseRolledBack(release.tag);
+   } catch (e) {
+      logger.rollbackFailed(release.tag, e);
+   }
+}
+
+/**
+ * Prints what releasing a version would publish, after verifying its build files the same way a release does
+ */
+async function planRelease(
+   version: string,
+   channel: Channel,
+   description: string,
+   options: ReleaseOptions = {}
+): Promise<DryRunResult> {
+   const versionPath = options.versionPath ?? getVersionPath(version, channel);
+   const artifacts = await getBuildFiles(versionPath, version);
+
+   await verifyBuildFiles(versionPath, artifacts, config.updaterPublicKey);
+   logger.buildFilesVerified(artifacts.length * 2);
+
+   const tag = getTagName(version, channel);
+   if ((await publisher.listReleases()).some((x) => x.tag === tag)) throw new Error(`Release ${tag} already exists`);
+
+   const commit = (await readBuildInfo(versionPath))?.commit;
+   if (commit) await verifyCommitPushed(commit);
+
+   // Asset urls are only known once they are uploaded
+   const manifest = await createUpdateFileInfo(version, description, artifacts, (x) => `<url of ${x.bundleFile.name}>`);
+
+   const isStaged = options.draft || options.prerelease;
+   const flags = [options.draft && "draft", (channel.prerelease || options.prerelease) && "prerelease"].filter(Boolean);
+
+   return reportDryRun(
+      `Releasing version ${version} ${getChannelText(channel)}`,
+      [
+         `create ${publisher.name} release ${tag}${flags.length > 0 ? ` (${flags.join(", ")})` : ""} with tag ${tag} from ${commit ?? config.targetBranch}`,
+         ...artifacts.flatMap((x) => [`upload ${x.bundleFile.name}`, `upload ${x.sigFile.name}`]),
+         isStaged
+            ? `leave manifest ${channel.manifestFileName} until the release is published`
+            : `write manifest ${channel.manifestFileName}:`,
+      ],
+      isStaged ? undefined : manifest
+   );
+}
+
+/**
+ * Prints the steps a dry run would take and the manifest it would write
+ */
+function reportDryRun(action: string, steps: string[], manifest?: UpdateFileInfo): DryRunResult {
+   logger.dryRunPlan(action, steps);
+   if (manifest) logger.manifestPreview(manifest);
+
+   return { dryRun: true, action, steps, manifest };
+}
+
+/**
+ * @returns the result of a command that created or published a release
+ */
+function getReleaseResult(release: PublisherRelease, channel: Channel, manifest?: UpdateFileInfo): ReleaseResult {
+   return {
+      tag: release.tag,
+      channel: channel.name,
+      url: release.url,
+      draft: release.draft,
+      prerelease: release.prerelease,
+      assets: release.assets.map((x) => ({ name: x.name, url: x.url })),
+      manifest,
    };
+}
 
-   logger.updatingGistFile();
+/**
+ * @returns the download url of every asset of a release by its name
+ */
+function getAssetUrls(release: PublisherRelease): Record<string, string> {
+   return Object.fromEntries(release.assets.map((x) => [x.name, x.url]));
+}
 
-   await octokit.rest.gists.update({
-      gist_id: GIST_ID,
-      description: description,
-      files: { "huginn-version.json": { filename: "huginn-version.json", content: JSON.stringify(content, null, 2) } },
-   });
+/**
+ * @returns the manifest that was written
+ */
+async function updateManifest(
+   channel: Channel,
+   version: string,
+   description: string,
+   assetUrls: Record<string, string>,
+   versionPath: string = getVersionPath(version, channel)
+): Promise<UpdateFileInfo> {
+   const artifacts = await getBuildFiles(versionPath, version);
+   const content = await createReleaseUpdateFileInfo(version, description, artifacts, assetUrls);
 
-   logger.gistFileUpdated(version, type);
+   await publishManifest(channel, content);
+   return content;
 }
 
-// async function logVersions() {
-//    consola.start("Reading versions...\n");
-//    const folders = await getVersions(BuildType.RELEASE);
+/**
+ * Writes the manifest of a channel and records it in the manifest history, so the channel can be rolled back to it later
+ */
+async function publishManifest(channel: Channel, manifest: UpdateFileInfo) {
+   logger.updatingManifest(channel.manifestFileName);
 
-//    if (folders.length === 0) {
-//       consola.fail("No versions are currently available!");
-//       return;
-//    }
+   // Only the manifest of this channel is written, so the other channels' manifests are left untouched
+   await publisher.writeManifest(channel.manifestFileName, manifest, manifest.notes);
+   await recordManifest(config.buildsPath, channel.name, manifest);
 
-//    for (let i = 0; i < folders.length; i++) {
-//       const folder = folders[i];
-//       const versionText = colors.cyan(folder);
-//       const isLatestText = i === 0 ? colors.bold(colors.green("Latest")) : "";
+   logger.manifestUpdated(manifest.version, channel);
+}
 
-//       consola.info(`Version ${versionText} ${isLatestText}`);
-//    }
-// }
+/**
+ * Adds a promotion to promotions.json in the build folder, so the build shows which channels it was published to
+ */
+async function recordPromotion(versionPath: string, version: string, channel: Channel) {
+   const promotions = await readPromotions(versionPath);
+
+   promotions.push({ channel: channel.name, tag: getTagName(version, channel), date: new Date().toISOString() });
+   await Bun.write(path.resolve(versionPath, PROMOTIONS_FILE_NAME), JSON.stringify(promotions, null, 2));
+}
+
+/**
+ * @returns the manifest of a published release, its signatures are read from the local build or downloaded if it has none
+ */
+async function getReleaseManifest(releaseVersion: ReleaseVersion): Promise<UpdateFileInfo> {
+   const version = versionToString(releaseVersion.version);
+   const release = releaseVersion.release;
+   const versionPath = getVersionPath(version, releaseVersion.channel);
+
+   if (existsSync(versionPath)) {
+      return await createReleaseUpdateFileInfo(
+         version,
+         release.body,
+         await getBuildFiles(versionPath, version),
+         getAssetUrls(release)
+      );
+   }
+
+   const platforms: UpdateFileInfo["platforms"] = {};
+   for (const asset of release.assets) {
+      const platform = PLATFORMS.find((x) => asset.name.endsWith(x.extension));
+      const sigAsset = release.assets.find((x) => x.name === `${asset.name}.sig`);
+      if (!platform || !sigAsset) continue;
+
+      // Without a local build there is nothing else to tell the architecture of a bundle named after the product only
+      const arch = getBundleArch(asset.name);
+      if (!arch)
+         throw new Error(`The architecture of ${asset.name} in release ${release.tag} is not in its name and it has no local build`);
+
+      const response = await fetch(sigAsset.url);
+      if (!response.ok) throw new Error(`Downloading ${sigAsset.url} failed with ${response.status} ${response.statusText}`);
+
+      platforms[`${platform.os}-${arch}`] = { signature: await response.text(), url: asset.url };
+   }
+
+   if (Object.keys(platforms).length === 0) throw new Error(`Release ${release.tag} has no updater bundles with a .sig file`);
+
+   return { version, pub_date: new Date().toISOString(), notes: getManifestNotes(release.body), platforms };
+}
+
+/**
+ * @returns a manifest of the build files pointing to the urls they were uploaded to
+ */
+async function createReleaseUpdateFileInfo(
+   version: string,
+   notes: string,
+   artifacts: BuildArtifact[],
+   assetUrls: Record<string, string>
+): Promise<UpdateFileInfo> {
+   return await createUpdateFileInfo(version, notes, artifacts, (artifact) => {
+      const url = assetUrls[artifact.bundleFile.name];
+      if (!url) throw new Error(`${artifact.bundleFile.name} was not uploaded to the release`);
+
+      return url;
+   });
+}
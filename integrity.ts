@@ -0,0 +1,156 @@
+import { createPublicKey, verify } from "node:crypto";
+import path from "path";
+import type { BuildArtifact } from "./types";
+
+export const CHECKSUMS_FILE_NAME = "checksums.txt";
+
+/** A minisign key or signature line, decoded */
+type MinisignLine = {
+   /** Ed for signatures of the file itself, ED for signatures of its BLAKE2b-512 hash */
+   algorithm: string;
+   keyId: string;
+   data: Buffer;
+};
+
+/**
+ * Writes the SHA-256 hash of every bundle and .sig file to checksums.txt in the version's build folder, in the format of sha256sum
+ * @returns the path of the written file
+ */
+export async function writeChecksums(versionPath: string, artifacts: BuildArtifact[]): Promise<string> {
+   const lines: string[] = [];
+
+   for (const file of artifacts.flatMap((x) => [x.bundleFile, x.sigFile])) {
+      lines.push(`${(await hashFile(file.path, "sha256")).toString("hex")}  ${getChecksumPath(versionPath, file.path)}`);
+   }
+
+   const checksumsPath = path.resolve(versionPath, CHECKSUMS_FILE_NAME);
+   await Bun.write(checksumsPath, `${lines.join("\n")}\n`);
+
+   return checksumsPath;
+}
+
+/**
+ * Checks the build files of a version against its checksums.txt and every .sig file against the updater's public key.
+ * Throws listing every problem, so nothing is published unless all of the files are intact
+ */
+export async function verifyBuildFiles(versionPath: string, artifacts: BuildArtifact[], publicKey?: string): Promise<void> {
+   const problems = await verifyChecksums(versionPath, artifacts);
+
+   if (!publicKey) {
+      problems.push(`"updaterPublicKey" is not set, so the .sig files can't be verified (set it to tauri's updater pubkey)`);
+   } else {
+      for (const artifact of artifacts) {
+         const problem = await verifySignature(artifact, publicKey);
+         if (problem) problems.push(problem);
+      }
+   }
+
+   if (problems.length > 0) {
+      throw new Error(
+         `Build files of ${path.basename(versionPath)} failed verification:\n${problems.map((x) => `  - ${x}`).join("\n")}`
+      );
+   }
+}
+
+/**
+ * @returns a problem for every build file that is missing from checksums.txt or whose hash changed since it was built
+ */
+async function verifyChecksums(versionPath: string, artifacts: BuildArtifact[]): Promise<string[]> {
+   const checksumsFile = Bun.file(path.resolve(versionPath, CHECKSUMS_FILE_NAME));
+   if (!(await checksumsFile.exists())) return [`${CHECKSUMS_FILE_NAME} was not found in ${versionPath}`];
+
+   const checksums = new Map<string, string>();
+   for (const line of (await checksumsFile.text()).split("\n")) {
+      const match = line.match(/^([0-9a-f]{64}) [ *](.+)$/);
+      if (match) checksums.set(match[2], match[1]);
+   }
+
+   const problems: string[] = [];
+
+   for (const file of artifacts.flatMap((x) => [x.bundleFile, x.sigFile])) {
+      const checksumPath = getChecksumPath(versionPath, file.path);
+      const expected = checksums.get(checksumPath);
+
+      if (!expected) problems.push(`${checksumPath} is not listed in ${CHECKSUMS_FILE_NAME}`);
+      else if ((await hashFile(file.path, "sha256")).toString("hex") !== expected)
+         problems.push(`${checksumPath} does not match its checksum`);
+   }
+
+   return problems;
+}
+
+/**
+ * Verifies a tauri .sig file the way the updater does, it is a base64 encoded minisign signature of the bundle
+ * @returns the problem with the signature or undefined if it is valid
+ */
+async function verifySignature(artifact: BuildArtifact, publicKey: string): Promise<string | undefined> {
+   const name = artifact.sigFile.name;
+
+   try {
+      const key = decodeMinisignLine(getMinisignLines(publicKey)[0] ?? "");
+      const [signatureLine, trustedComment, globalSignature] = getMinisignLines(await Bun.file(artifact.sigFile.path).text());
+      const signature = decodeMinisignLine(signatureLine ?? "");
+
+      if (signature.keyId !== key.keyId) return `${name} was signed with key ${signature.keyId} instead of ${key.keyId}`;
+
+      const message =
+         signature.algorithm === "ED"
+            ? await hashFile(artifact.bundleFile.path, "blake2b512")
+            : Buffer.from(await Bun.file(artifact.bundleFile.path).arrayBuffer());
+
+      const keyObject = createPublicKey({ key: { kty: "OKP", crv: "Ed25519", x: key.data.toString("base64url") }, format: "jwk" });
+
+      if (!verify(null, message, keyObject, signature.data)) return `${name} does not match ${artifact.bundleFile.name}`;
+
+      // The trusted comment is signed together with the signature, tauri writes the bundle's file name in it
+      const comment = (trustedComment ?? "").replace(/^trusted comment: /, "");
+      const globalData = Buffer.concat([signature.data, Buffer.from(comment)]);
+      if (!verify(null, globalData, keyObject, Buffer.from(globalSignature ?? "", "base64")))
+         return `${name} has an invalid trusted comment`;
+
+      const fileName = comment.match(/file:([^\t]+)/)?.[1];
+      if (fileName && fileName !== artifact.bundleFile.name)
+         return `${name} was created for ${fileName} instead of ${artifact.bundleFile.name}`;
+   } catch (e) {
+      return `${name} could not be verified: ${e instanceof Error ? e.message : e}`;
+   }
+}
+
+/**
+ * @returns the lines of a minisign key or signature without its untrusted comment, which tauri base64 encodes as a whole
+ */
+function getMinisignLines(content: string): string[] {
+   const text = content.includes("untrusted comment:") ? content : atob(content.trim());
+   return text
+      .split("\n")
+      .map((x) => x.trim())
+      .filter((x) => x && !x.startsWith("untrusted comment:"));
+}
+
+function decodeMinisignLine(line: string): MinisignLine {
+   const bytes = Buffer.from(line, "base64");
+   if (bytes.length !== 42 && bytes.length !== 74) throw new Error("not a minisign key or signature");
+
+   return {
+      algorithm: bytes.subarray(0, 2).toString(),
+      keyId: Buffer.from(bytes.subarray(2, 10)).reverse().toString("hex").toUpperCase(),
+      data: bytes.subarray(10),
+   };
+}
+
+/**
+ * @returns the hash of a file, read as a stream so bundles don't have to fit in memory
+ */
+export async function hashFile(filePath: string, algorithm: "sha256" | "blake2b512"): Promise<Buffer> {
+   const hasher = new Bun.CryptoHasher(algorithm);
+   for await (const chunk of Bun.file(filePath).stream()) hasher.update(chunk);
+
+   return hasher.digest();
+}
+
+/**
+ * @returns the path of a build file relative to its version's folder, always with forward slashes
+ */
+function getChecksumPath(versionPath: string, filePath: string): string {
+   return path.relative(versionPath, filePath).split(path.sep).join("/");
+}
@@ -1,60 +1,437 @@
-import consola from "consola";
-import { BuildType, type Version } from "./types";
+import type { ConsolaInstance } from "consola";
+import {
+   BuildMode,
+   ReporterType,
+   type Channel,
+   type ChannelStatus,
+   type Reporter,
+   type TauriBuildResult,
+   type UpdateFileInfo,
+   type VersionFileChange,
+} from "./types";
+import { getChangedLines } from "./versionFiles";
 import { colors } from "consola/utils";
+import { createReporter } from "./reporters";
+
+/** Number of characters the upload progress bar is wide */
+const PROGRESS_BAR_WIDTH = 30;
+
+let reporter: Reporter = createReporter(ReporterType.PRETTY, process.stdout);
+
+/**
+ * Sends every following event to the reporter instead of the pretty console output
+ */
+export function setReporter(value: Reporter): void {
+   reporter = value;
+}
 
 export const logger = {
    bundlerInfo(): void {
-      consola.log(colors.green(colors.bold("HUGINN BUNDLER\n")));
+      emit("bundlerInfo", {}, (out) => {
+         out.log(colors.green(colors.bold("HUGINN BUNDLER\n")));
+      });
    },
 
-   startingBuild(version: string, type: BuildType): void {
-      consola.log("");
-      consola.info(`Started build for version ${colors.cyan(version)} ${getVersionTypeText(type)}`);
+   buildingDirtyTree(fileCount: number): void {
+      emit("buildingDirtyTree", { fileCount }, (out) => {
+         out.warn(`Building with ${colors.cyan(fileCount.toString())} uncommitted changes, the build won't record a commit`);
+      });
+   },
+   buildSkipped(version: string, commit: string): void {
+      emit("buildSkipped", { version, commit }, (out) => {
+         out.info(`Skipped the build, ${version} is already built from ${colors.cyan(commit.slice(0, 7))}`);
+      });
+   },
+   startingBuild(version: string, channel: Channel): void {
+      emit("startingBuild", { version, channel: channel.name }, (out) => {
+         out.log("");
+         out.info(`Started build for version ${colors.cyan(version)} ${getChannelText(channel)}`);
+      });
    },
    versionFieldsUpdated(version: string): void {
-      consola.info(`Updating version fields to ${colors.cyan(version)}`);
+      emit("versionFieldsUpdated", { version }, (out) => {
+         out.info(`Updating version fields to ${colors.cyan(version)}`);
+      });
+   },
+   versionFileChanges(changes: VersionFileChange[]): void {
+      emit("versionFileChanges", { changes: changes.map((x) => ({ path: x.path, lines: getChangedLines(x) })) }, (out) => {
+         for (const change of changes) {
+            const lines = getChangedLines(change);
+            if (lines.length === 0) continue;
+
+            out.log(colors.gray(change.path));
+            for (const line of lines) {
+               out.log(colors.red(`  ${line.line} - ${line.oldLine.trim()}`));
+               out.log(colors.green(`  ${line.line} + ${line.newLine.trim()}`));
+            }
+         }
+      });
    },
    buildingApp(version: string): void {
-      consola.info(`Building Huginn ${colors.cyan(version)}`);
+      emit("buildingApp", { version }, (out) => {
+         out.info(`Building Huginn ${colors.cyan(version)}`);
+      });
+   },
+   buildOutput(line: string): void {
+      emit("buildOutput", { line }, (out) => {
+         out.log(colors.gray(`  │ ${line}`));
+      });
+   },
+   appBuilt(result: TauriBuildResult, logPath: string): void {
+      emit("appBuilt", { result, logPath }, (out) => {
+         out.log("");
+         out.info(`Built the app in ${colors.cyan(formatDuration(result.duration))} ${colors.gray(`(${logPath})`)}`);
+      });
+   },
+   buildInterrupted(): void {
+      emit("buildInterrupted", {}, (out) => {
+         out.error("Something went wrong... ");
+      });
+   },
+   buildFailed(result: TauriBuildResult, logPath: string): void {
+      emit("buildFailed", { result, logPath }, (out) => {
+         out.log("");
+         out.error(`Build failed with exit code ${colors.red(result.exitCode.toString())} after ${formatDuration(result.duration)}`);
+         out.log(colors.gray(`Last ${result.tail.length} lines of ${logPath}:`));
+         for (const line of result.tail) out.log(`  ${line}`);
+      });
+   },
+   buildLogKept(logPath: string): void {
+      emit("buildLogKept", { logPath }, (out) => {
+         out.info(`Kept the build log at ${colors.cyan(logPath)}`);
+      });
    },
    copyingBuildFiles(path: string): void {
-      consola.info(`Copying build files to ${colors.cyan(path)}`);
+      emit("copyingBuildFiles", { path }, (out) => {
+         out.info(`Copying build files to ${colors.cyan(path)}`);
+      });
+   },
+   checksumsWritten(path: string): void {
+      emit("checksumsWritten", { path }, (out) => {
+         out.info(`Wrote checksums to ${colors.cyan(path)}`);
+      });
+   },
+   buildCommitRecorded(commit: string, isCommitted: boolean): void {
+      emit("buildCommitRecorded", { commit, isCommitted }, (out) => {
+         out.info(`${isCommitted ? "Committed the version bump as" : "Built from commit"} ${colors.cyan(commit.slice(0, 7))}`);
+      });
    },
-   buildCompleted(version: string, type: BuildType): void {
-      consola.log("");
-      consola.success(`Build completed for version ${colors.cyan(version)} ${getVersionTypeText(type)}`);
+   versionBumpReverted(paths: string[]): void {
+      emit("versionBumpReverted", { paths }, (out) => {
+         out.info(
+            `Reverted the version bump in ${colors.cyan(paths.length.toString())} files, the build records no commit (build with --commit to keep it)`
+         );
+      });
    },
+   filesChangedDuringBuild(paths: string[]): void {
+      emit("filesChangedDuringBuild", { paths }, (out) => {
+         out.warn("These files changed during the build and are not part of the version bump, the build records no commit:");
+         for (const filePath of paths) out.log(`  - ${colors.cyan(filePath)}`);
+      });
+   },
+   buildInfoWritten(path: string): void {
+      emit("buildInfoWritten", { path }, (out) => {
+         out.info(`Wrote build info to ${colors.cyan(path)}`);
+      });
+   },
+   buildCompleted(version: string, channel: Channel): void {
+      emit("buildCompleted", { version, channel: channel.name }, (out) => {
+         out.log("");
+         out.success(`Build completed for version ${colors.cyan(version)} ${getChannelText(channel)}`);
+      });
+   },
+   buildRolledBack(restoredFiles: string[], removedFolder?: string): void {
+      emit("buildRolledBack", { restoredFiles, removedFolder }, (out) => {
+         if (restoredFiles.length === 0 && !removedFolder) {
+            out.info("Nothing had to be rolled back");
+            return;
+         }
 
-   creatingRelease(version: string, type: BuildType): void {
-      consola.info(`Creating release for version ${colors.cyan(version)} ${getVersionTypeText(type)}`);
+         out.info("Rolled back the build:");
+         for (const file of restoredFiles) out.log(`  Restored ${colors.cyan(file)}`);
+         if (removedFolder) out.log(`  Removed ${colors.cyan(removedFolder)}`);
+      });
+   },
+   rollbackFailed(path: string, error: unknown): void {
+      emit("rollbackFailed", { path, error: getErrorMessage(error) }, (out) => {
+         out.error(`Could not roll back ${colors.cyan(path)}: ${getErrorMessage(error)}`);
+      });
+   },
+
+   releaseNotesGenerated(commitCount: number, previousTag?: string): void {
+      emit("releaseNotesGenerated", { commitCount, previousTag }, (out) => {
+         const since = previousTag ? `since ${colors.cyan(previousTag)}` : "since the first commit";
+         out.info(`Generated release notes from ${colors.cyan(commitCount.toString())} commits ${since}`);
+      });
+   },
+   previousTagMissing(tag: string): void {
+      emit("previousTagMissing", { tag }, (out) => {
+         out.warn(`Tag ${colors.cyan(tag)} is not in the app's repository, fetch its tags to generate release notes from commits`);
+      });
+   },
+
+   creatingRelease(version: string, channel: Channel, publisherName: string): void {
+      emit("creatingRelease", { version, channel: channel.name, publisherName }, (out) => {
+         out.info(`Creating ${publisherName} release for version ${colors.cyan(version)} ${getChannelText(channel)}`);
+      });
+   },
+   buildFilesVerified(count: number): void {
+      emit("buildFilesVerified", { count }, (out) => {
+         out.info(`Verified the checksums and signatures of ${colors.cyan(count.toString())} build files`);
+      });
    },
    uploadingReleaseFiles(): void {
-      consola.log("");
-      consola.info("Uploading release files to Github...");
+      emit("uploadingReleaseFiles", {}, (out) => {
+         out.log("");
+         out.info("Uploading release files...");
+      });
+   },
+   uploadProgress(fileName: string, uploadedBytes: number, totalBytes: number): void {
+      emit("uploadProgress", { fileName, uploadedBytes, totalBytes }, (out) => {
+         // The bar is redrawn on the same line, which only works in a terminal
+         const terminal = getTerminal();
+         if (!terminal) return;
+
+         const ratio = totalBytes > 0 ? uploadedBytes / totalBytes : 1;
+         const bar = "█".repeat(Math.round(ratio * PROGRESS_BAR_WIDTH)).padEnd(PROGRESS_BAR_WIDTH, "░");
+         terminal.write(`\r  ${colors.cyan(bar)} ${Math.floor(ratio * 100)}% ${fileName} ${colors.gray(formatSize(totalBytes))}`);
+      });
+   },
+   assetUploaded(fileName: string, size: number): void {
+      emit("assetUploaded", { fileName, size }, (out) => {
+         getTerminal()?.write("\r\x1b[K");
+         out.log(`  Uploaded ${colors.cyan(fileName)} ${colors.gray(`(${formatSize(size)})`)}`);
+      });
    },
-   releaseCreated(version: string, type: BuildType): void {
-      consola.success(`Created github release for version ${colors.cyan(version)} ${getVersionTypeText(type)}`);
+   uploadRetrying(fileName: string, attempt: number, delay: number, error: unknown): void {
+      emit("uploadRetrying", { fileName, attempt, delay, error: getErrorMessage(error) }, (out) => {
+         getTerminal()?.write("\r\x1b[K");
+         out.warn(
+            `Uploading ${colors.cyan(fileName)} failed (${getErrorMessage(error)}), retrying in ${formatDuration(delay)} (attempt ${attempt + 1})`
+         );
+      });
+   },
+   localTagCreated(tag: string, commit: string): void {
+      emit("localTagCreated", { tag, commit }, (out) => {
+         out.info(`Tagged ${colors.cyan(commit.slice(0, 7))} as ${colors.cyan(tag)} in the app's repository`);
+      });
+   },
+   releaseRolledBack(tag: string): void {
+      emit("releaseRolledBack", { tag }, (out) => {
+         out.info(`Removed release ${colors.cyan(tag)} since not all of its files could be uploaded`);
+      });
+   },
+   releaseStaged(tag: string, isDraft: boolean): void {
+      emit("releaseStaged", { tag, isDraft }, (out) => {
+         out.success(`Created ${isDraft ? "draft" : "prerelease"} ${colors.cyan(tag)}, the manifest was left as it is`);
+         out.info(`Run ${colors.cyan(`bundler publish ${tag}`)} to make it public and update the manifest`);
+      });
+   },
+   releasePublished(tag: string): void {
+      emit("releasePublished", { tag }, (out) => {
+         out.success(`Published release ${colors.cyan(tag)}`);
+      });
+   },
+   releaseCreated(version: string, channel: Channel): void {
+      emit("releaseCreated", { version, channel: channel.name }, (out) => {
+         out.success(`Created release for version ${colors.cyan(version)} ${getChannelText(channel)}`);
+      });
    },
 
-   updatingGistFile(): void {
-      consola.log("");
-      consola.info("Updating gist file...");
+   promotingBuild(version: string, from: Channel, to: Channel): void {
+      emit("promotingBuild", { version, from: from.name, to: to.name }, (out) => {
+         out.log("");
+         out.info(`Promoting ${colors.cyan(version)} from ${getChannelText(from)} to ${getChannelText(to)}`);
+      });
    },
-   gistFileUpdated(version: string, type: BuildType): void {
-      consola.success(`Updated gist file for version ${colors.cyan(version)} ${getVersionTypeText(type)}`);
+   buildPromoted(version: string, from: Channel, to: Channel): void {
+      emit("buildPromoted", { version, from: from.name, to: to.name }, (out) => {
+         out.log("");
+         out.success(`Promoted ${colors.cyan(version)} from ${getChannelText(from)} to ${getChannelText(to)}`);
+      });
    },
 
-   releaseDeleted(version: string, type: BuildType): void {
-      consola.log("");
-      consola.success(`Successfuly deleted release for version ${colors.cyan(version)} ${getVersionTypeText(type)}`);
+   updatingManifest(fileName: string): void {
+      emit("updatingManifest", { fileName }, (out) => {
+         out.log("");
+         out.info(`Updating manifest ${colors.cyan(fileName)}...`);
+      });
+   },
+   manifestChanges(fileName: string, changes: { field: string; oldValue?: string; newValue?: string }[]): void {
+      emit("manifestChanges", { fileName, changes }, (out) => {
+         out.log("");
+         out.log(colors.gray(fileName));
+         for (const change of changes) {
+            out.log(`  ${change.field}`);
+            if (change.oldValue !== undefined) out.log(colors.red(`    - ${change.oldValue}`));
+            if (change.newValue !== undefined) out.log(colors.green(`    + ${change.newValue}`));
+         }
+      });
+   },
+   manifestUpdated(version: string, channel: Channel): void {
+      emit("manifestUpdated", { version, channel: channel.name }, (out) => {
+         out.success(`Updated manifest for version ${colors.cyan(version)} ${getChannelText(channel)}`);
+      });
    },
 
-   versionDeleted(version: string, type: BuildType): void {
-      consola.log("");
-      consola.success(`Successfuly deleted version ${colors.cyan(version)} ${getVersionTypeText(type)}`);
+   channelVersion(channel: Channel, version?: string, publishDate?: string): void {
+      emit("channelVersion", { channel: channel.name, version, publishDate }, (out) => {
+         if (!version) out.info(`${getChannelText(channel)} channel has not been published yet`);
+         else out.info(`${getChannelText(channel)} channel points to ${colors.cyan(version)} ${colors.gray(`(${publishDate})`)}`);
+      });
+   },
+
+   channelStatus(status: ChannelStatus): void {
+      emit("channelStatus", { status: { ...status, channel: status.channel.name } }, (out) => {
+         const manifestText = status.manifest ? `points to ${colors.cyan(status.manifest.version)}` : "has not been published yet";
+
+         out.log("");
+         out.info(`${getChannelText(status.channel)} ${colors.gray(status.channel.manifestFileName)} ${manifestText}`);
+
+         if (status.versions.length === 0) out.log(colors.gray("  No builds or releases"));
+         for (const version of status.versions) {
+            const columns = [
+               version.isBuilt ? colors.green("built") : colors.gray("not built"),
+               version.release ? colors.green(`released as ${version.release.tag}`) : colors.gray("not released"),
+               version.release?.draft && colors.yellow("draft"),
+               version.promotedFrom && colors.gray(`promoted from ${version.promotedFrom}`),
+               version.promotedTo.length > 0 && colors.gray(`promoted to ${version.promotedTo.join(", ")}`),
+               version.isLive && colors.bold(colors.green("live")),
+            ];
+
+            out.log(`  ${colors.cyan(version.version.padEnd(16))} ${columns.filter(Boolean).join(colors.gray(" · "))}`);
+         }
+
+         for (const problem of status.problems) out.warn(problem);
+      });
+   },
+
+   serverStarted(url: string, channels: Channel[]): void {
+      emit("serverStarted", { url, channels: channels.map((x) => x.name) }, (out) => {
+         out.success(`Serving local builds on ${colors.cyan(url)}`);
+         for (const channel of channels) {
+            out.log(`  ${getChannelText(channel)} ${colors.cyan(`${url}/${channel.manifestFileName}`)}`);
+            out.log(
+               `  ${" ".repeat(channel.name.length)} ${colors.cyan(`${url}/${channel.name}/{{target}}/{{arch}}/{{current_version}}`)}`
+            );
+         }
+      });
+   },
+
+   dryRunPlan(action: string, steps: string[]): void {
+      emit("dryRunPlan", { action, steps }, (out) => {
+         out.log("");
+         out.info(`${colors.yellow("Dry run")}, nothing was changed. ${action} would:`);
+         for (const step of steps) out.log(`  - ${step}`);
+      });
+   },
+   manifestPreview(manifest: UpdateFileInfo): void {
+      emit("manifestPreview", { manifest }, (out) => {
+         for (const line of JSON.stringify(manifest, null, 2).split("\n")) out.log(colors.gray(`    ${line}`));
+      });
+   },
+
+   deletionPlan(version: string, channel: Channel, steps: string[]): void {
+      emit("deletionPlan", { version, channel: channel.name, steps }, (out) => {
+         out.log("");
+         out.info(`Deleting version ${colors.cyan(version)} ${getChannelText(channel)} will:`);
+         for (const step of steps) out.log(`  - ${step}`);
+      });
+   },
+   manifestOrphaned(fileName: string, version: string): void {
+      emit("manifestOrphaned", { fileName, version }, (out) => {
+         out.warn(`${colors.cyan(fileName)} will keep pointing to ${colors.cyan(version)} after its release is deleted`);
+      });
+   },
+
+   pruneSkipped(version: string, channel: Channel, reason: string): void {
+      emit("pruneSkipped", { version, channel: channel.name, reason }, (out) => {
+         out.info(`Keeping ${colors.cyan(version)} ${getChannelText(channel)} since ${reason}`);
+      });
+   },
+   prunePlan(steps: string[]): void {
+      emit("prunePlan", { steps }, (out) => {
+         out.log("");
+         out.info("Pruning will:");
+         for (const step of steps) out.log(`  - ${step}`);
+      });
+   },
+   nothingToPrune(): void {
+      emit("nothingToPrune", {}, (out) => {
+         out.success("Every version is kept by the retention rules, nothing to prune");
+      });
+   },
+   pruneCompleted(count: number): void {
+      emit("pruneCompleted", { count }, (out) => {
+         out.log("");
+         out.success(`Pruned ${colors.cyan(count.toString())} versions`);
+      });
+   },
+
+   releaseDeleted(version: string, channel: Channel): void {
+      emit("releaseDeleted", { version, channel: channel.name }, (out) => {
+         out.log("");
+         out.success(`Successfuly deleted release for version ${colors.cyan(version)} ${getChannelText(channel)}`);
+      });
+   },
+
+   tagDeleted(tag: string): void {
+      emit("tagDeleted", { tag }, (out) => {
+         out.success(`Successfuly deleted tag ${colors.cyan(tag)}`);
+      });
+   },
+
+   versionDeleted(version: string, channel: Channel): void {
+      emit("versionDeleted", { version, channel: channel.name }, (out) => {
+         out.log("");
+         out.success(`Successfuly deleted version ${colors.cyan(version)} ${getChannelText(channel)}`);
+      });
+   },
+
+   commandFailed(message: string): void {
+      emit("commandFailed", { message }, (out) => {
+         out.error(message);
+      });
    },
 };
 
-export function getVersionTypeText(type: BuildType): string {
-   return type === BuildType.DEBUG ? colors.red("debug") : colors.green("release");
+/**
+ * Reports an event, print shows it the way the pretty console output does
+ */
+function emit(type: string, data: Record<string, unknown>, print: (out: ConsolaInstance) => void): void {
+   reporter.report({ type, data, print });
+}
+
+/**
+ * @returns the output of the pretty reporter if it is a terminal, where lines can be redrawn
+ */
+function getTerminal(): NodeJS.WriteStream | undefined {
+   return reporter.type === ReporterType.PRETTY && reporter.output.isTTY ? reporter.output : undefined;
+}
+
+function getErrorMessage(error: unknown): string {
+   return error instanceof Error ? error.message : String(error);
+}
+
+export function getChannelText(channel: Channel): string {
+   if (channel.mode === BuildMode.DEBUG) return colors.red(channel.name);
+   return channel.prerelease ? colors.yellow(channel.name) : colors.green(channel.name);
+}
+
+/**
+ * @returns a size in bytes as 12.3 MB
+ */
+export function formatSize(bytes: number): string {
+   const units = ["B", "KB", "MB", "GB"];
+   const exponent = Math.min(Math.floor(Math.log(Math.max(bytes, 1)) / Math.log(1024)), units.length - 1);
+
+   return `${exponent === 0 ? bytes : (bytes / 1024 ** exponent).toFixed(1)} ${units[exponent]}`;
+}
+
+/**
+ * @returns a duration in milliseconds as 1m 23s
+ */
+export function formatDuration(duration: number): string {
+   const seconds = Math.round(duration / 1000);
+   return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
 }
@@ -0,0 +1,131 @@
+import { Octokit, RequestError } from "octokit";
+import type { BundlerConfig, Publisher, PublisherRelease } from "../types";
+import { createProgressStream } from "../upload";
+
+/**
+ * @returns a publisher that creates github releases in the configured repository and writes manifests to the configured gist
+ */
+export function createGithubPublisher(config: BundlerConfig): Publisher {
+   const octokit = new Octokit({ auth: process.env.GITHUB_TOKEN });
+   const owner = config.owner;
+   const repo = config.repo!;
+   const gistId = config.gistId!;
+
+   return {
+      name: "github",
+
+      async listReleases() {
+         const releases = await octokit.paginate(octokit.rest.repos.listReleases, { owner, repo });
+         return releases.map(toPublisherRelease);
+      },
+
+      async createRelease(options) {
+         const release = await octokit.rest.repos.createRelease({
+            owner,
+            repo,
+            name: options.name,
+            tag_name: options.tag,
+            target_commitish: options.targetCommitish,
+            body: options.body,
+            prerelease: options.prerelease,
+            draft: options.draft,
+         });
+
+         return toPublisherRelease(release.data);
+      },
+
+      async publishRelease(release, prerelease) {
+         // Github only creates the tag of a draft once it is published
+         const published = await octokit.rest.repos.updateRelease({
+            owner,
+            repo,
+            release_id: Number(release.id),
+            draft: false,
+            prerelease,
+         });
+
+         return toPublisherRelease(published.data);
+      },
+
+      async deleteRelease(release) {
+         await octokit.rest.repos.deleteRelease({ owner, repo, release_id: Number(release.id) });
+      },
+
+      async deleteTag(tag) {
+         try {
+            await octokit.rest.git.deleteRef({ owner, repo, ref: `tags/${tag}` });
+         } catch (e) {
+            // A tag that does not exist is already deleted
+            if (!(e instanceof RequestError && e.status === 422)) throw e;
+         }
+      },
+
+      async uploadAsset(release, file, contentType, onProgress) {
+         const size = Bun.file(file.path).size;
+
+         // A failed upload can leave a broken asset behind that blocks uploading the same name again, a complete one is kept
+         const assets = await octokit.paginate(octokit.rest.repos.listReleaseAssets, { owner, repo, release_id: Number(release.id) });
+         const existing = assets.find((x) => x.name === file.name);
+
+         if (existing?.state === "uploaded" && existing.size === size) return existing.browser_download_url;
+         if (existing) await octokit.rest.repos.deleteReleaseAsset({ owner, repo, asset_id: existing.id });
+
+         const asset = await octokit.rest.repos.uploadReleaseAsset({
+            owner,
+            repo,
+            name: file.name,
+            release_id: Number(release.id),
+            // Octokit passes the stream on to fetch, so the file is never read into memory as a whole
+            data: toUploadData(createProgressStream(file.path, onProgress)),
+            headers: { "content-type": contentType, "content-length": size },
+         });
+
+         return asset.data.browser_download_url;
+      },
+
+      async readManifest(fileName) {
+         const gist = await octokit.rest.gists.get({ gist_id: gistId });
+         const content = gist.data.files?.[fileName]?.content;
+
+         return content ? JSON.parse(content) : undefined;
+      },
+
+      async writeManifest(fileName, manifest, description) {
+         // Only this manifest is sent, so the other files of the gist are left untouched
+         await octokit.rest.gists.update({
+            gist_id: gistId,
+            description: description,
+            files: { [fileName]: { filename: fileName, content: JSON.stringify(manifest, null, 2) } },
+         });
+      },
+   };
+}
+
+/**
+ * @returns the stream as the upload's body. Octokit types the body of an asset upload as a string only, although it hands it to fetch which streams it
+ */
+function toUploadData(stream: ReadableStream<Uint8Array>): string {
+   return stream as unknown as string;
+}
+
+function toPublisherRelease(release: {
+   id: number;
+   tag_name: string;
+   name: string | null;
+   body?: string | null;
+   prerelease: boolean;
+   draft: boolean;
+   html_url: string;
+   assets: { name: string; browser_download_url: string }[];
+}): PublisherRelease {
+   return {
+      id: release.id.toString(),
+      tag: release.tag_name,
+      name: release.name ?? release.tag_name,
+      body: release.body ?? "",
+      prerelease: release.prerelease,
+      draft: release.draft,
+      url: release.html_url,
+      assets: release.assets.map((x) => ({ name: x.name, url: x.browser_download_url })),
+   };
+}
@@ -0,0 +1,119 @@
+import type { Publisher, PublisherRelease, UpdateFileInfo } from "../types";
+import { createProgressStream } from "../upload";
+
+/**
+ * @returns a publisher that PUTs releases and manifests to a generic http server such as a WebDAV share or a bucket.
+ * Uses the same layout as the local publisher, with a releases.json index since most servers can't list files
+ */
+export function createHttpPublisher(url: string, publicUrl?: string, headers: Record<string, string> = {}): Publisher {
+   const baseUrl = url.replace(/\/+$/, "");
+   const downloadUrl = (publicUrl ?? url).replace(/\/+$/, "");
+
+   const getAssetPath = (tag: string, name: string) => `releases/${encodeURIComponent(tag)}/${encodeURIComponent(name)}`;
+   const getReleaseUrl = (tag: string) => `${downloadUrl}/releases/${encodeURIComponent(tag)}/`;
+
+   async function request(
+      method: string,
+      filePath: string,
+      body?: string | ReadableStream<Uint8Array>,
+      requestHeaders: Record<string, string> = {}
+   ): Promise<Response> {
+      const response = await fetch(`${baseUrl}/${filePath}`, { method, body, headers: { ...headers, ...requestHeaders } });
+
+      // A missing file is not an error when reading or deleting it
+      const isMissing = (method === "GET" || method === "DELETE") && response.status === 404;
+      if (!response.ok && !isMissing) {
+         // The status tells uploads whether the request is worth retrying
+         throw Object.assign(new Error(`${method} ${baseUrl}/${filePath} failed with ${response.status} ${response.statusText}`), {
+            status: response.status,
+         });
+      }
+
+      return response;
+   }
+
+   async function readIndex(): Promise<PublisherRelease[]> {
+      const response = await request("GET", "releases.json");
+      if (response.status === 404) return [];
+
+      // Releases written before drafts were supported have no draft flag, and the url follows the current publicUrl
+      return ((await response.json()) as PublisherRelease[]).map((x) => ({
+         ...x,
+         draft: x.draft ?? false,
+         url: getReleaseUrl(x.tag),
+      }));
+   }
+
+   async function writeIndex(releases: PublisherRelease[]): Promise<void> {
+      await request("PUT", "releases.json", JSON.stringify(releases, null, 2), { "content-type": "application/json" });
+   }
+
+   return {
+      name: "http",
+
+      async listReleases() {
+         return await readIndex();
+      },
+
+      async createRelease(options) {
+         const releases = await readIndex();
+         if (releases.some((x) => x.tag === options.tag)) throw new Error(`Release ${options.tag} already exists on ${baseUrl}`);
+
+         const release: PublisherRelease = {
+            id: options.tag,
+            tag: options.tag,
+            name: options.name,
+            body: options.body,
+            prerelease: options.prerelease,
+            draft: options.draft,
+            url: getReleaseUrl(options.tag),
+            assets: [],
+         };
+
+         await writeIndex([...releases, release]);
+
+         return release;
+      },
+
+      async publishRelease(release, prerelease) {
+         const published = { ...release, draft: false, prerelease };
+         await writeIndex((await readIndex()).map((x) => (x.tag === release.tag ? published : x)));
+
+         return published;
+      },
+
+      async deleteRelease(release) {
+         for (const asset of release.assets) {
+            await request("DELETE", getAssetPath(release.tag, asset.name));
+         }
+
+         await writeIndex((await readIndex()).filter((x) => x.tag !== release.tag));
+      },
+
+      async uploadAsset(release, file, contentType, onProgress) {
+         const assetPath = getAssetPath(release.tag, file.name);
+
+         // A PUT replaces what a failed upload left behind
+         await request("PUT", assetPath, createProgressStream(file.path, onProgress), {
+            "content-type": contentType,
+            "content-length": Bun.file(file.path).size.toString(),
+         });
+
+         const assetUrl = `${downloadUrl}/${assetPath}`;
+         release.assets = [...release.assets.filter((x) => x.name !== file.name), { name: file.name, url: assetUrl }];
+
+         await writeIndex((await readIndex()).map((x) => (x.tag === release.tag ? release : x)));
+
+         return assetUrl;
+      },
+
+      async readManifest(fileName) {
+         const response = await request("GET", encodeURIComponent(fileName));
+         return response.status === 404 ? undefined : ((await response.json()) as UpdateFileInfo);
+      },
+
+      async writeManifest(fileName, manifest) {
+         await request("PUT", encodeURIComponent(fileName), JSON.stringify(manifest, null, 2), { "content-type": "application/json" });
+      },
+   };
+}
@@ -0,0 +1,15 @@
+import type { BundlerConfig, Publisher } from "../types";
+import { createGithubPublisher } from "./github";
+import { createHttpPublisher } from "./http";
+import { createLocalPublisher } from "./local";
+
+/**
+ * @returns the publisher configured by the publisher key of the config
+ */
+export function createPublisher(config: BundlerConfig): Publisher {
+   const publisher = config.publisher;
+
+   if (publisher.type === "local") return createLocalPublisher(publisher.path, publisher.baseUrl);
+   else if (publisher.type === "http") return createHttpPublisher(publisher.url, publisher.publicUrl, publisher.headers);
+   return createGithubPublisher(config);
+}
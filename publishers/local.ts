@@ -0,0 +1,92 @@
+import { mkdir, readdir, rm } from "node:fs/promises";
+import path from "path";
+import { pathToFileURL } from "node:url";
+import type { Publisher, PublisherRelease } from "../types";
+import { createProgressStream } from "../upload";
+
+/**
+ * @returns a publisher that writes releases and manifests to a directory, which can be served by any static file server.
+ * Releases are written to releases/<tag> with a release.json next to their assets and manifests to the root of the directory
+ */
+export function createLocalPublisher(directory: string, baseUrl?: string): Publisher {
+   const releasesPath = path.resolve(directory, "releases");
+   const url = (baseUrl ?? pathToFileURL(directory).href).replace(/\/+$/, "");
+
+   const getReleasePath = (tag: string) => path.resolve(releasesPath, tag);
+   const getReleaseUrl = (tag: string) => `${url}/releases/${encodeURIComponent(tag)}/`;
+   const writeRelease = (release: PublisherRelease) =>
+      Bun.write(path.resolve(getReleasePath(release.tag), "release.json"), JSON.stringify(release, null, 2));
+
+   return {
+      name: "local",
+
+      async listReleases() {
+         await mkdir(releasesPath, { recursive: true });
+         const tags = await readdir(releasesPath);
+         const releases: PublisherRelease[] = [];
+
+         for (const tag of tags) {
+            const releaseFile = Bun.file(path.resolve(getReleasePath(tag), "release.json"));
+            // Releases written before drafts were supported have no draft flag, and the url follows the current baseUrl
+            if (await releaseFile.exists()) releases.push({ draft: false, ...(await releaseFile.json()), url: getReleaseUrl(tag) });
+         }
+
+         return releases;
+      },
+
+      async createRelease(options) {
+         if (await Bun.file(path.resolve(getReleasePath(options.tag), "release.json")).exists()) {
+            throw new Error(`Release ${options.tag} already exists in ${releasesPath}`);
+         }
+
+         const release: PublisherRelease = {
+            id: options.tag,
+            tag: options.tag,
+            name: options.name,
+            body: options.body,
+            prerelease: options.prerelease,
+            draft: options.draft,
+            url: getReleaseUrl(options.tag),
+            assets: [],
+         };
+
+         await mkdir(getReleasePath(options.tag), { recursive: true });
+         await writeRelease(release);
+
+         return release;
+      },
+
+      async publishRelease(release, prerelease) {
+         const published = { ...release, draft: false, prerelease };
+         await writeRelease(published);
+
+         return published;
+      },
+
+      async deleteRelease(release) {
+         await rm(getReleasePath(release.tag), { force: true, recursive: true });
+      },
+
+      async uploadAsset(release, file, _contentType, onProgress) {
+         // The asset is written from the start on every attempt, replacing what a failed one left behind
+         const writer = Bun.file(path.resolve(getReleasePath(release.tag), file.name)).writer();
+         for await (const chunk of createProgressStream(file.path, onProgress)) writer.write(chunk);
+         await writer.end();
+
+         const assetUrl = `${url}/releases/${encodeURIComponent(release.tag)}/${encodeURIComponent(file.name)}`;
+         release.assets = [...release.assets.filter((x) => x.name !== file.name), { name: file.name, url: assetUrl }];
+         await writeRelease(release);
+
+         return assetUrl;
+      },
+
+      async readManifest(fileName) {
+         const manifestFile = Bun.file(path.resolve(directory, fileName));
+         return (await manifestFile.exists()) ? await manifestFile.json() : undefined;
+      },
+
+      async writeManifest(fileName, manifest) {
+         await Bun.write(path.resolve(directory, fileName), JSON.stringify(manifest, null, 2));
+      },
+   };
+}
@@ -0,0 +1,80 @@
+import type { GitCommit } from "./types";
+
+/** Sections of the release notes by conventional commit type, in the order they are listed */
+const COMMIT_GROUPS = [
+   { title: "Features", types: ["feat"] },
+   { title: "Bug Fixes", types: ["fix"] },
+   { title: "Performance", types: ["perf"] },
+   { title: "Refactoring", types: ["refactor"] },
+   { title: "Documentation", types: ["docs"] },
+];
+
+const BREAKING_CHANGES_TITLE = "Breaking Changes";
+
+/** Section of commits that aren't conventional or whose type has no section of its own, such as chore or ci */
+const OTHER_CHANGES_TITLE = "Other Changes";
+
+/** Sections that are kept in the updater's notes, the rest only matter to developers */
+const USER_FACING_TITLES = [BREAKING_CHANGES_TITLE, "Features", "Bug Fixes", "Performance"];
+
+/**
+ * @returns markdown release notes listing the commits under a heading for every conventional commit type
+ */
+export function generateReleaseNotes(commits: GitCommit[]): string {
+   const sections = new Map<string, string[]>();
+   const addLine = (title: string, line: string) => sections.set(title, [...(sections.get(title) ?? []), line]);
+
+   for (const commit of commits) {
+      const match = commit.subject.match(/^(\w+)(?:\(([^)]+)\))?(!)?:\s*(.+)$/);
+      const type = match?.[1].toLowerCase();
+      const scope = match?.[2];
+      const description = match?.[4] ?? commit.subject;
+
+      const line = `- ${scope ? `**${scope}:** ` : ""}${description} (${commit.hash})`;
+      const isBreaking = !!match?.[3] || /^BREAKING[ -]CHANGE:/m.test(commit.body);
+
+      if (isBreaking) addLine(BREAKING_CHANGES_TITLE, line);
+      else addLine(COMMIT_GROUPS.find((x) => type && x.types.includes(type))?.title ?? OTHER_CHANGES_TITLE, line);
+   }
+
+   const titles = [BREAKING_CHANGES_TITLE, ...COMMIT_GROUPS.map((x) => x.title), OTHER_CHANGES_TITLE];
+   return titles
+      .filter((x) => sections.has(x))
+      .map((x) => `## ${x}\n\n${sections.get(x)!.join("\n")}`)
+      .join("\n\n");
+}
+
+/**
+ * @returns the plain text notes shown by the updater, only the user facing sections of markdown release notes without any formatting
+ */
+export function getManifestNotes(markdown: string): string {
+   const lines: string[] = [];
+   let isSkipped = false;
+
+   for (const line of markdown.split(/\r?\n/)) {
+      const heading = line.match(/^#+\s+(.*)$/)?.[1].trim();
+      if (heading !== undefined) {
+         isSkipped = !USER_FACING_TITLES.includes(heading);
+         if (!isSkipped) lines.push(`${heading}:`);
+      } else if (!isSkipped) lines.push(stripMarkdown(line));
+   }
+
+   // Notes that were written by hand might have no user facing sections at all
+   const notes = lines
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+   return notes || markdown.split(/\r?\n/).map(stripMarkdown).join("\n").trim();
+}
+
+/**
+ * @returns a line of markdown without links, emphasis, code and commit hashes
+ */
+function stripMarkdown(line: string): string {
+   return line
+      .replace(/\s*\(\[?[0-9a-f]{7,40}\]?(\([^)]*\))?\)$/, "")
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/(\*\*|__|`)/g, "")
+      .replace(/^#+\s+/, "")
+      .replace(/^\s*[*+]\s+/, "- ");
+}
@@ -0,0 +1,86 @@
+import consola, { createConsola, LogLevels, type LogType } from "consola";
+import { stripAnsi } from "consola/utils";
+import { ReporterType, type LogEvent, type Reporter } from "./types";
+
+/** Types of the lines an event prints, from the least to the most severe */
+const SEVERITIES: LogType[] = ["log", "info", "success", "warn", "error"];
+
+/**
+ * @returns a reporter that writes every event to the output, in the format of its type
+ */
+export function createReporter(type: ReporterType, output: NodeJS.WriteStream): Reporter {
+   if (type === ReporterType.JSON) {
+      return { type, output, report: (event) => output.write(`${JSON.stringify(toJsonEvent(event))}\n`) };
+   }
+
+   if (type === ReporterType.GITHUB) {
+      return { type, output, report: (event) => output.write(toGithubLines(event)) };
+   }
+
+   // Warnings and errors still go to stderr
+   consola.options.stdout = output;
+   return { type, output, report: (event) => event.print(consola) };
+}
+
+/**
+ * @returns a line of JSON lines output, with the most severe type and the text of every line the event prints
+ */
+function toJsonEvent(event: LogEvent): Record<string, unknown> {
+   const lines = getEventLines(event);
+   const level = lines.reduce<LogType>((x, y) => (SEVERITIES.indexOf(y.type) > SEVERITIES.indexOf(x) ? y.type : x), "log");
+
+   return {
+      time: new Date().toISOString(),
+      type: event.type,
+      level,
+      message: lines
+         .map((x) => x.text)
+         .join("\n")
+         .trim(),
+      data: JSON.parse(toJson(event.data)),
+   };
+}
+
+/**
+ * @returns the value as JSON, colors of strings such as plan steps are removed because they would only get in the way of scripts
+ */
+export function toJson(value: unknown): string {
+   return JSON.stringify(value, (_, x) => (typeof x === "string" ? stripAnsi(x) : x));
+}
+
+/**
+ * @returns the lines an event prints as plain text, with warnings and errors as workflow commands so github actions annotates them
+ */
+function toGithubLines(event: LogEvent): string {
+   return getEventLines(event)
+      .map((x) => {
+         if (x.type === "error") return `::error title=${event.type}::${escapeWorkflowCommand(x.text)}\n`;
+         if (x.type === "warn") return `::warning title=${event.type}::${escapeWorkflowCommand(x.text)}\n`;
+         return `${x.text}\n`;
+      })
+      .join("");
+}
+
+/**
+ * @returns the lines an event would print to the console, without colors
+ */
+function getEventLines(event: LogEvent): { type: LogType; text: string }[] {
+   const lines: { type: LogType; text: string }[] = [];
+
+   // Repeated lines must not be throttled, they are only collected once the event is printed
+   const capture = createConsola({
+      level: LogLevels.info,
+      throttle: 0,
+      reporters: [{ log: (logObj) => lines.push({ type: logObj.type, text: stripAnsi(logObj.args.join(" ")) }) }],
+   });
+
+   event.print(capture);
+   return lines;
+}
+
+/**
+ * @returns the text with the characters github actions parses in workflow commands escaped
+ */
+function escapeWorkflowCommand(text: string): string {
+   return text.replace(/%/g, "%25").replace(/\r/g, "%0D").replace(/\n/g, "%0A");
+}
@@ -0,0 +1,45 @@
+import type { RetentionRules, Version } from "./types";
+import { compareVersions } from "./utils";
+
+/**
+ * @returns the versions that none of the retention rules keep, newest first. A version is kept as soon as one rule keeps it
+ */
+export function getUnretainedVersions(rules: RetentionRules, versions: Version[]): Version[] {
+   const sortedVersions = [...versions].sort((v1, v2) => compareVersions(v2, v1));
+   const kept = new Set<Version>();
+
+   if (rules.keepLast !== undefined) sortedVersions.slice(0, rules.keepLast).forEach((x) => kept.add(x));
+
+   if (rules.keepLatestPatch) {
+      // Prereleases aren't patches of their line, they are only kept by keepLast
+      const releases = sortedVersions.filter((x) => !x.prerelease?.length);
+      releases
+         .filter((x, i) => releases.findIndex((y) => y.major === x.major && y.minor === x.minor) === i)
+         .forEach((x) => kept.add(x));
+   }
+
+   return sortedVersions.filter((x) => !kept.has(x));
+}
+
+/**
+ * @returns a problem for every invalid rule of a channel's retention option
+ */
+export function validateRetentionRules(rules: unknown, channelName: string): string[] {
+   const key = `channels.${channelName}.retention`;
+   if (typeof rules !== "object" || rules === null || Array.isArray(rules)) return [`"${key}" must be an object of retention rules`];
+
+   const { keepLast, keepLatestPatch } = rules as RetentionRules;
+   const problems: string[] = [];
+
+   if (keepLast !== undefined && (!Number.isInteger(keepLast) || keepLast < 1)) {
+      problems.push(`"${key}.keepLast" must be a whole number of at least 1`);
+   }
+   if (keepLatestPatch !== undefined && typeof keepLatestPatch !== "boolean") {
+      problems.push(`"${key}.keepLatestPatch" must be true or false`);
+   }
+
+   // Rules that keep nothing would prune every version but the live one
+   if (keepLast === undefined && !keepLatestPatch) problems.push(`"${key}" has to set keepLast or keepLatestPatch`);
+
+   return problems;
+}
@@ -0,0 +1,113 @@
+import path from "path";
+import type { Server } from "bun";
+import type { AppVersion, BuildArtifact, BundlerConfig, UpdateFileInfo } from "./types";
+import {
+   compareVersions,
+   createUpdateFileInfo,
+   getBuildFiles,
+   getBuildFolderName,
+   getVersions,
+   isValidVersion,
+   stringToVersion,
+   versionToString,
+} from "./utils";
+
+/**
+ * Serves the builds folder for testing the tauri updater before anything is published. The routes are:
+ * - /<manifestFileName> the same manifest a release would publish for the channel's latest build
+ * - /<channel>/<target>/<current_version> and /<channel>/<target>/<arch>/<current_version> for tauri's dynamic update endpoints
+ * - /files/<build folder>/<platform>/<file> the build files the manifests point to
+ */
+export function startUpdateServer(config: BundlerConfig, hostname: string, port: number): Server {
+   return Bun.serve({
+      hostname,
+      port,
+      async fetch(request) {
+         const url = new URL(request.url);
+         const segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+         const baseUrl = url.origin;
+
+         if (segments[0] === "files") return await serveBuildFile(config, segments.slice(1));
+
+         const manifestChannel = config.channels.find((x) => segments.length === 1 && x.manifestFileName === segments[0]);
+         if (manifestChannel) {
+            const latest = await getLatestBuild(config, manifestChannel.name);
+            if (!latest) return new Response(`No ${manifestChannel.name} builds were found`, { status: 404 });
+
+            return Response.json(await createLocalManifest(config, latest, baseUrl));
+         }
+
+         const dynamicChannel = config.channels.find((x) => x.name === segments[0]);
+         if (dynamicChannel && (segments.length === 3 || segments.length === 4)) {
+            const target = segments.length === 4 ? `${segments[1]}-${segments[2]}` : segments[1];
+            return await serveDynamicUpdate(config, dynamicChannel.name, target, segments[segments.length - 1], baseUrl);
+         }
+
+         return new Response("Not found", { status: 404 });
+      },
+   });
+}
+
+/**
+ * Responds the way tauri expects from a dynamic update endpoint, 204 when there is no update or the update for the target
+ */
+async function serveDynamicUpdate(
+   config: BundlerConfig,
+   channelName: string,
+   target: string,
+   currentVersion: string,
+   baseUrl: string
+): Promise<Response> {
+   if (!isValidVersion(currentVersion)) return new Response(`${currentVersion} is not a valid version`, { status: 400 });
+
+   const latest = await getLatestBuild(config, channelName);
+   if (!latest || compareVersions(latest.version, stringToVersion(currentVersion)) <= 0) return new Response(null, { status: 204 });
+
+   const manifest = await createLocalManifest(config, latest, baseUrl);
+
+   // Tauri 1 sends only the os as the target, so the first platform of that os is used
+   const platformKey = Object.keys(manifest.platforms).find((x) => x === target || x.startsWith(`${target}-`));
+   if (!platformKey) return new Response(null, { status: 204 });
+
+   return Response.json({
+      version: manifest.version,
+      notes: manifest.notes,
+      pub_date: manifest.pub_date,
+      ...manifest.platforms[platformKey],
+   });
+}
+
+/**
+ * @returns a file from a version's build folder, refusing paths that leave the builds folder
+ */
+async function serveBuildFile(config: BundlerConfig, segments: string[]): Promise<Response> {
+   const filePath = path.resolve(config.buildsPath, ...segments);
+   if (!filePath.startsWith(config.buildsPath + path.sep)) return new Response("Forbidden", { status: 403 });
+
+   const file = Bun.file(filePath);
+   return (await file.exists()) ? new Response(file) : new Response("Not found", { status: 404 });
+}
+
+/**
+ * @returns the latest local build of a channel
+ */
+async function getLatestBuild(config: BundlerConfig, channelName: string): Promise<AppVersion | undefined> {
+   const versions = await getVersions(config.buildsPath, config.channels);
+   return versions.find((x) => x.channel.name === channelName);
+}
+
+/**
+ * @returns the manifest a release of the build would publish, pointing to the files served by this server
+ */
+async function createLocalManifest(config: BundlerConfig, build: AppVersion, baseUrl: string): Promise<UpdateFileInfo> {
+   const version = versionToString(build.version);
+   const folderName = getBuildFolderName(version, build.channel);
+   const artifacts = await getBuildFiles(path.resolve(config.buildsPath, folderName), version);
+
+   const getUrl = (artifact: BuildArtifact) => {
+      const relativePath = path.relative(config.buildsPath, artifact.bundleFile.path).split(path.sep);
+      return `${baseUrl}/files/${relativePath.map(encodeURIComponent).join("/")}`;
+   };
+
+   return await createUpdateFileInfo(version, `Local build of ${version}`, artifacts, getUrl);
+}
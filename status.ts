@@ -0,0 +1,108 @@
+import path from "path";
+import type {
+   AppVersion,
+   BuildArtifact,
+   Channel,
+   ChannelStatus,
+   PublisherRelease,
+   ReleaseVersion,
+   UpdateFileInfo,
+   VersionStatus,
+} from "./types";
+import { compareVersions, getBuildFiles, getBuildFolderName, getTagName, PLATFORMS, readPromotions, versionToString } from "./utils";
+
+/**
+ * Lines up the local builds, the releases and the manifest of a channel
+ * @returns every version of the channel and the problems found between them
+ */
+export async function getChannelStatus(
+   channel: Channel,
+   buildsPath: string,
+   builds: AppVersion[],
+   releases: ReleaseVersion[],
+   manifest: UpdateFileInfo | undefined
+): Promise<ChannelStatus> {
+   const channelBuilds = builds.filter((x) => x.channel.name === channel.name);
+   const channelReleases = releases.filter((x) => x.channel.name === channel.name);
+   const promotedTags = await getPromotedTags(buildsPath, builds);
+
+   const versions = [...channelBuilds, ...channelReleases]
+      .map((x) => x.version)
+      .sort((v1, v2) => compareVersions(v2, v1))
+      .filter((x, i, all) => i === 0 || compareVersions(x, all[i - 1]) !== 0);
+
+   const statuses: VersionStatus[] = [];
+   const problems: string[] = [];
+
+   for (const version of versions) {
+      const versionText = versionToString(version);
+      const tag = getTagName(versionText, channel);
+      const versionPath = path.resolve(buildsPath, getBuildFolderName(versionText, channel));
+
+      const isBuilt = channelBuilds.some((x) => compareVersions(x.version, version) === 0);
+      const release = channelReleases.find((x) => x.release.tag === tag)?.release;
+      const promotedFrom = promotedTags.get(tag);
+      const promotedTo = [...promotedTags].filter(([, from]) => from === versionPath).map(([x]) => x);
+
+      if (isBuilt && !release && promotedTo.length === 0) problems.push(`${versionText} was built but never released`);
+      if (release && !isBuilt && !promotedFrom) problems.push(`${tag} has no local build`);
+
+      if (release) {
+         const artifacts = isBuilt ? await getBuildFiles(versionPath, versionText).catch(() => undefined) : undefined;
+         const missingAssets = getMissingAssets(release, artifacts);
+         if (missingAssets.length > 0) problems.push(`${tag} is missing ${missingAssets.join(", ")}`);
+      }
+
+      statuses.push({
+         version: versionText,
+         isBuilt,
+         release,
+         isLive: manifest?.version === versionText,
+         promotedFrom: promotedFrom ? path.basename(promotedFrom) : undefined,
+         promotedTo,
+      });
+   }
+
+   if (manifest) {
+      const release = channelReleases.find((x) => x.release.tag === getTagName(manifest.version, channel))?.release;
+      const assetUrls = release?.assets.map((x) => x.url) ?? [];
+
+      if (!release) problems.push(`${channel.manifestFileName} points to ${manifest.version} which has no release`);
+      else if (Object.values(manifest.platforms).some((x) => !assetUrls.includes(x.url))) {
+         problems.push(`${channel.manifestFileName} points to files that are not assets of ${release.tag}`);
+      }
+   }
+
+   return { channel, manifest, versions: statuses, problems };
+}
+
+/**
+ * @returns the bundles and .sig files a release should have but doesn't, compared to its local build if there is one
+ */
+function getMissingAssets(release: PublisherRelease, artifacts?: BuildArtifact[]): string[] {
+   const names = release.assets.map((x) => x.name);
+   const bundles = names.filter((x) => PLATFORMS.some((platform) => x.endsWith(platform.extension)));
+
+   const expected = [
+      ...(artifacts?.flatMap((x) => [x.bundleFile.name, x.sigFile.name]) ?? []),
+      ...bundles.map((x) => `${x}.sig`),
+      ...names.filter((x) => x.endsWith(".sig")).map((x) => x.slice(0, -".sig".length)),
+   ];
+
+   const missing = [...new Set(expected)].filter((x) => !names.includes(x));
+   return bundles.length === 0 && missing.length === 0 ? ["every updater bundle"] : missing;
+}
+
+/**
+ * @returns the build folder every promoted tag was published from
+ */
+async function getPromotedTags(buildsPath: string, builds: AppVersion[]): Promise<Map<string, string>> {
+   const promotedTags = new Map<string, string>();
+
+   for (const build of builds) {
+      const versionPath = path.resolve(buildsPath, getBuildFolderName(versionToString(build.version), build.channel));
+      for (const promotion of await readPromotions(versionPath)) promotedTags.set(promotion.tag, versionPath);
+   }
+
+   return promotedTags;
+}
@@ -0,0 +1,86 @@
+import path from "path";
+import { BuildMode, type TauriBuildResult } from "./types";
+
+/** Number of lines kept from the end of the build output to show when a build fails */
+const TAIL_LENGTH = 30;
+
+/** Architectures of node's process.arch as the updater names them */
+const HOST_ARCHS: Record<string, string> = { x64: "x86_64", arm64: "aarch64", ia32: "i686" };
+
+/**
+ * Runs tauri's build script in the app directory, streaming its output line by line and saving it to a log file
+ * @returns the exit code and the last lines of the output
+ */
+export async function runTauriBuild(
+   appPath: string,
+   mode: BuildMode,
+   logPath: string,
+   onLine: (line: string) => void
+): Promise<TauriBuildResult> {
+   const startTime = Date.now();
+   const command = getTauriBuildCommand(mode);
+
+   // TAURI_PRIVATE_KEY and TAURI_KEY_PASSWORD are passed on to tauri for signing the updater bundles
+   const buildProcess = Bun.spawn(command, { cwd: appPath, env: { ...Bun.env }, stdout: "pipe", stderr: "pipe" });
+
+   const log = Bun.file(logPath).writer();
+   log.write(`$ ${command.join(" ")}\n`);
+
+   const tail: string[] = [];
+   const handleLine = (line: string) => {
+      log.write(`${line}\n`);
+
+      tail.push(line);
+      if (tail.length > TAIL_LENGTH) tail.shift();
+
+      onLine(line);
+   };
+
+   await Promise.all([readLines(buildProcess.stdout, handleLine), readLines(buildProcess.stderr, handleLine)]);
+   const exitCode = await buildProcess.exited;
+
+   log.write(`\nExited with code ${exitCode}\n`);
+   await log.end();
+
+   return { exitCode, tail, duration: Date.now() - startTime };
+}
+
+/**
+ * @returns the command that builds the app in the given mode
+ */
+export function getTauriBuildCommand(mode: BuildMode): string[] {
+   return ["bun", "tauri-build", ...(mode === BuildMode.DEBUG ? ["--debug"] : [])];
+}
+
+/**
+ * Calls onLine for every line of the stream as soon as it is complete
+ */
+async function readLines(stream: ReadableStream<Uint8Array>, onLine: (line: string) => void): Promise<void> {
+   const decoder = new TextDecoder();
+   let buffer = "";
+
+   for await (const chunk of stream) {
+      buffer += decoder.decode(chunk, { stream: true });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop()!;
+      lines.forEach(onLine);
+   }
+
+   buffer += decoder.decode();
+   if (buffer) onLine(buffer);
+}
+
+/**
+ * @returns the architecture tauri built for, from the target triple of a build path such as target/aarch64-apple-darwin/release/bundle,
+ * otherwise the architecture of this machine
+ */
+export function getTauriBuildArch(buildPath: string): string {
+   const targetTriple = buildPath.split(path.sep).find((x) => /^(aarch64|x86_64|i686)-\w+-\w+/.test(x));
+   if (targetTriple) return targetTriple.slice(0, targetTriple.indexOf("-"));
+
+   const hostArch = HOST_ARCHS[process.arch];
+   if (!hostArch) throw new Error(`Builds on ${process.arch} are not supported, set a build path with the target triple to build for`);
+
+   return hostArch;
+}
@@ -1,22 +1,165 @@
+import type { ConsolaInstance } from "consola";
+
 export type Version = {
    patch?: number;
    minor: number;
    major: number;
+   /** Prerelease identifiers such as ["beta", "2"] for -beta.2 */
+   prerelease?: string[];
+   /** Build metadata identifiers such as ["abc123"] for +abc123, ignored when comparing versions */
+   build?: string[];
 };
 
-export enum BuildType {
-   RELEASE = "RELEASE",
-   DEBUG = "DEBUG",
+export enum BumpStrategy {
+   PATCH = "patch",
+   MINOR = "minor",
+   MAJOR = "major",
+   PRERELEASE = "prerelease",
+}
+
+/**
+ * Everything a version leaves behind that can be deleted
+ */
+export enum DeleteTarget {
+   BUILD = "build",
+   RELEASE = "release",
+   TAG = "tag",
+   /** Moves the channel's manifest back to its previous release when it points to the version */
+   MANIFEST = "manifest",
+}
+
+export enum BuildMode {
+   RELEASE = "release",
+   DEBUG = "debug",
 }
 
+/**
+ * A release track such as release, debug, beta or nightly
+ */
+export type Channel = {
+   name: string;
+   /** Mode tauri builds the app in for this channel */
+   mode: BuildMode;
+   /** Suffix of the channel's build folders such as _release */
+   folderSuffix: string;
+   /** Suffix of the channel's git tags such as -dev */
+   tagSuffix: string;
+   /** Whether github releases of this channel are marked as a prerelease */
+   prerelease: boolean;
+   /** Name of the gist file that holds the channel's updater manifest */
+   manifestFileName: string;
+   /** Which of the channel's versions the prune command keeps, channels without rules are never pruned */
+   retention?: RetentionRules;
+};
+
+/**
+ * Versions of a channel that are kept when pruning, a version is kept if any of the rules keeps it
+ */
+export type RetentionRules = {
+   /** Number of the newest versions that are kept */
+   keepLast?: number;
+   /** Keeps the newest version of every major.minor line, such as 0.3.2 of 0.3.0, 0.3.1 and 0.3.2 */
+   keepLatestPatch?: boolean;
+};
+
+export type ChannelOptions = Partial<Omit<Channel, "name">>;
+
 export type AppVersion = {
-   type: BuildType;
+   channel: Channel;
    version: Version;
 };
 
-export type BuildFiles = {
-   zipFile: { path: string; name: string };
-   sigFile: { path: string; name: string };
+/**
+ * A version that is built locally, with the build.json of its folder if it has one
+ */
+export type BuildVersion = AppVersion & { info?: BuildInfo };
+
+/**
+ * Where, when and from what a version was built, written to build.json in its build folder
+ */
+export type BuildInfo = {
+   version: string;
+   /** Name of the channel the version was built for */
+   channel: string;
+   mode: BuildMode;
+   /** Hash of the commit the version was built from, not set for builds of a working tree with uncommitted changes */
+   commit?: string;
+   /** When the build finished, as an ISO date */
+   date: string;
+   host: string;
+   toolchain: { bun: string; rustc?: string };
+   /** SHA-256 hash of every updater bundle */
+   artifacts: { target: string; file: string; sha256: string }[];
+   /** Duration of the tauri build in milliseconds */
+   duration: number;
+};
+
+/**
+ * A version that is released on the publisher
+ */
+export type ReleaseVersion = AppVersion & { release: PublisherRelease };
+
+/**
+ * A release of a build under another channel than it was built for
+ */
+export type Promotion = {
+   /** Name of the channel the build was published to */
+   channel: string;
+   tag: string;
+   /** When the build was promoted, as an ISO date */
+   date: string;
+};
+
+/**
+ * Where a version of a channel stands locally, on the publisher and in the manifest
+ */
+export type VersionStatus = {
+   version: string;
+   isBuilt: boolean;
+   release?: PublisherRelease;
+   /** Whether the channel's manifest points to this version */
+   isLive: boolean;
+   /** Build folder of another channel the version's release was promoted from */
+   promotedFrom?: string;
+   /** Tags of other channels the version's build was promoted to */
+   promotedTo: string[];
+};
+
+export type ChannelStatus = {
+   channel: Channel;
+   manifest?: UpdateFileInfo;
+   /** Every built or released version, newest first */
+   versions: VersionStatus[];
+   /** Drift between the builds, releases and manifest */
+   problems: string[];
+};
+
+export type FileInfo = { path: string; name: string };
+
+export type GitCommit = {
+   /** Abbreviated hash of the commit */
+   hash: string;
+   subject: string;
+   body: string;
+};
+
+export type Platform = {
+   /** Name of the platform used in the updater manifest (windows, linux, darwin) */
+   os: string;
+   /** Extension of the updater bundle tauri creates for this platform */
+   extension: string;
+   /** Whether tauri includes the version in the bundle's file name */
+   versioned: boolean;
+};
+
+/**
+ * An updater bundle and its signature for a single platform
+ */
+export type BuildArtifact = {
+   /** Target of the artifact in the updater manifest such as windows-x86_64 */
+   target: string;
+   bundleFile: FileInfo;
+   sigFile: FileInfo;
 };
 
 export type UpdateFileInfo = {
@@ -25,3 +168,213 @@ export type UpdateFileInfo = {
    pub_date: string;
    platforms: { [k: string]: { signature: string; url: string } };
 };
+
+/**
+ * A manifest that was published, kept in the builds folder so a channel can be rolled back to it
+ */
+export type ManifestHistoryEntry = {
+   version: string;
+   /** Name of the channel the manifest was published to */
+   channel: string;
+   /** When the manifest was published, as an ISO date */
+   date: string;
+   manifest: UpdateFileInfo;
+};
+
+export type BundlerConfig = {
+   /** Owner of the github repository releases are made in */
+   owner: string;
+   /** Name of the github repository releases are made in, only required by the github publisher */
+   repo?: string;
+   /** Id of the gist that holds the updater manifests, only required by the github publisher */
+   gistId?: string;
+   /** Branch that release tags are created from when a build has no recorded commit */
+   targetBranch: string;
+   /** Directory of the tauri app that is built */
+   appPath: string;
+   /** Directory that every built version is copied to */
+   buildsPath: string;
+   tauriDebugBuildPath: string;
+   tauriReleaseBuildPath: string;
+   /** Only used as the default versionFiles */
+   cargoTomlPath?: string;
+   /** Only used as the default versionFiles */
+   packageJsonPath?: string;
+   /** Tauri's updater pubkey, the .sig files are verified against it before publishing */
+   updaterPublicKey?: string;
+   /** Files that the version is written to before building, Cargo.toml, package.json, tauri.conf.json or any json with a top level version */
+   versionFiles: string[];
+   /** Every channel that can be built and released. release and debug are always available */
+   channels: Channel[];
+   /** Where releases and updater manifests are published, defaults to github releases and a gist */
+   publisher: PublisherConfig;
+};
+
+/**
+ * The contents of a config file, channels are given by their name and only need to specify what differs from the defaults
+ */
+export type UserConfig = Partial<Omit<BundlerConfig, "channels">> & { channels?: Record<string, ChannelOptions> };
+
+export enum ReporterType {
+   /** Colored output for people reading the console */
+   PRETTY = "pretty",
+   /** A JSON object for every event, one per line */
+   JSON = "json",
+   /** Plain output with warnings and errors as github actions annotations */
+   GITHUB = "github",
+}
+
+/**
+ * Something the bundler reports, such as a build that completed
+ */
+export type LogEvent = {
+   /** Name of the logger method that reported the event, such as buildCompleted */
+   type: string;
+   /** Values of the event for reporters that are read by scripts */
+   data: Record<string, unknown>;
+   /** Prints the event the way the pretty console output shows it */
+   print: (out: ConsolaInstance) => void;
+};
+
+export type Reporter = {
+   type: ReporterType;
+   /** Stream the reporter writes to, stderr when --json keeps stdout for the result */
+   output: NodeJS.WriteStream;
+   report: (event: LogEvent) => void;
+};
+
+/**
+ * What a dry run would do, the result of every command run with --dry-run
+ */
+export type DryRunResult = {
+   dryRun: true;
+   /** The action that was planned, such as Building version 1.2.3 */
+   action: string;
+   steps: string[];
+   /** Manifest the action would write */
+   manifest?: UpdateFileInfo;
+};
+
+export type BuildResult = {
+   version: string;
+   channel: string;
+   /** Build folder of the version */
+   path: string;
+   /** Whether an existing build of the same commit was kept instead of building again */
+   skipped: boolean;
+   info?: BuildInfo;
+};
+
+export type ReleaseResult = {
+   tag: string;
+   channel: string;
+   /** Page of the release on the publisher */
+   url: string;
+   draft: boolean;
+   prerelease: boolean;
+   assets: { name: string; url: string }[];
+   /** Manifest that was written, staged releases leave the manifest untouched */
+   manifest?: UpdateFileInfo;
+};
+
+export type DeleteResult = {
+   version: string;
+   channel: string;
+   deleted: DeleteTarget[];
+};
+
+export type RollbackResult = {
+   channel: string;
+   /** Version the manifest pointed to before rolling back */
+   from?: string;
+   to: string;
+   manifest: UpdateFileInfo;
+};
+
+export type VersionFileChange = {
+   path: string;
+   oldText: string;
+   newText: string;
+};
+
+export type TauriBuildResult = {
+   exitCode: number;
+   /** The last lines of the build output */
+   tail: string[];
+   /** Duration of the build in milliseconds */
+   duration: number;
+};
+
+export type PublisherRelease = {
+   /** Id of the release on the publisher, publishers without ids use the tag */
+   id: string;
+   tag: string;
+   name: string;
+   body: string;
+   prerelease: boolean;
+   /** Draft releases are only visible to the repository's maintainers */
+   draft: boolean;
+   /** Page of the release, or the folder of its assets for publishers without release pages */
+   url: string;
+   assets: { name: string; url: string }[];
+};
+
+export type CreateReleaseOptions = {
+   tag: string;
+   name: string;
+   body: string;
+   prerelease: boolean;
+   draft: boolean;
+   /** Branch or commit the release's tag is created from */
+   targetCommitish: string;
+};
+
+/**
+ * A backend that releases and updater manifests are published to
+ */
+export type Publisher = {
+   /** Name of the publisher shown in the logs */
+   name: string;
+   listReleases(): Promise<PublisherRelease[]>;
+   createRelease(options: CreateReleaseOptions): Promise<PublisherRelease>;
+   /**
+    * Makes a draft release public with the given prerelease flag
+    * @returns the published release, its asset urls can differ from the draft's
+    */
+   publishRelease(release: PublisherRelease, prerelease: boolean): Promise<PublisherRelease>;
+   /** Deletes the release together with its assets, its tag is kept */
+   deleteRelease(release: PublisherRelease): Promise<void>;
+   /** Deletes a git tag, only publishers backed by a repository have tags */
+   deleteTag?(tag: string): Promise<void>;
+   /**
+    * Streams a file from disk to the release, replacing an asset with the same name that is left over from a failed upload
+    * @returns the public download url of the uploaded asset
+    */
+   uploadAsset(
+      release: PublisherRelease,
+      file: FileInfo,
+      contentType: string,
+      onProgress?: (uploadedBytes: number) => void
+   ): Promise<string>;
+   readManifest(fileName: string): Promise<UpdateFileInfo | undefined>;
+   writeManifest(fileName: string, manifest: UpdateFileInfo, description: string): Promise<void>;
+};
+
+export type PublisherConfig =
+   | { type: "github" }
+   | {
+        type: "local";
+        /** Directory that releases and manifests are written to */
+        path: string;
+        /** Url the directory is served from, used for the asset urls in the manifests */
+        baseUrl?: string;
+     }
+   | {
+        type: "http";
+        /** Url that releases and manifests are PUT under */
+        url: string;
+        /** Url the uploaded files are downloaded from if it differs from url */
+        publicUrl?: string;
+        /** Headers sent with every request, such as Authorization */
+        headers?: Record<string, string>;
+     };
@@ -0,0 +1,63 @@
+import type { FileInfo, Publisher, PublisherRelease } from "./types";
+
+/** Attempts made for every asset before giving up on the release */
+const UPLOAD_ATTEMPTS = 4;
+
+/** Delay before the first retry in milliseconds, doubled after every failed attempt */
+const RETRY_DELAY = 2000;
+
+/**
+ * Uploads an asset to a release, retrying network errors and server errors with an increasing delay.
+ * Every publisher replaces an asset that is left over from a failed attempt
+ * @returns the public download url of the uploaded asset
+ */
+export async function uploadAssetWithRetry(
+   publisher: Publisher,
+   release: PublisherRelease,
+   file: FileInfo,
+   contentType: string,
+   onProgress: (uploadedBytes: number, totalBytes: number) => void,
+   onRetry: (attempt: number, delay: number, error: unknown) => void
+): Promise<string> {
+   const totalBytes = Bun.file(file.path).size;
+
+   for (let attempt = 1; ; attempt++) {
+      try {
+         return await publisher.uploadAsset(release, file, contentType, (uploadedBytes) => onProgress(uploadedBytes, totalBytes));
+      } catch (e) {
+         if (attempt >= UPLOAD_ATTEMPTS || !isTransientError(e)) throw e;
+
+         const delay = RETRY_DELAY * 2 ** (attempt - 1);
+         onRetry(attempt, delay, e);
+         await Bun.sleep(delay);
+      }
+   }
+}
+
+/**
+ * @returns a stream of a file read from disk, reporting the number of bytes read so far after every chunk
+ */
+export function createProgressStream(filePath: string, onProgress?: (uploadedBytes: number) => void): ReadableStream<Uint8Array> {
+   let uploadedBytes = 0;
+
+   return Bun.file(filePath)
+      .stream()
+      .pipeThrough(
+         new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+               uploadedBytes += chunk.byteLength;
+               onProgress?.(uploadedBytes);
+               controller.enqueue(chunk);
+            },
+         })
+      );
+}
+
+/**
+ * @returns whether an upload error is worth retrying, which is every error without a status such as a dropped connection,
+ * server errors, timeouts and rate limits
+ */
+function isTransientError(error: unknown): boolean {
+   const status = error instanceof Object ? (error as { status?: number }).status : undefined;
+   return status === undefined || status >= 500 || status === 408 || status === 429;
+}
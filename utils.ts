@@ -1,140 +1,314 @@
 import { semver } from "bun";
-import { mkdir, readdir } from "node:fs/promises";
+import { readdir } from "node:fs/promises";
 import path from "path";
-import { BuildType, type BuildFiles, type Version, type AppVersion } from "./types";
+import {
+   BumpStrategy,
+   type BuildArtifact,
+   type Channel,
+   type Platform,
+   type Promotion,
+   type Version,
+   type BuildVersion,
+   type UpdateFileInfo,
+} from "./types";
+import { getManifestNotes } from "./releaseNotes";
+import { readBuildInfo } from "./buildInfo";
 
-export const BUILDS_PATH: string = process.env.BUILDS_PATH!;
+export const PROMOTIONS_FILE_NAME = "promotions.json";
 
-export const TAURI_DEBUG_BUILD_PATH: string = process.env.TAURI_DEBUG_BUILD_PATH!;
-export const TAURI_RELEASE_BUILD_PATH: string = process.env.TAURI_RELEASE_BUILD_PATH!;
+/** major.minor[.patch][-prerelease][+build] with an optional leading v */
+const VERSION_REGEX =
+   /^v?(\d+)\.(\d+)(?:\.(\d+))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/;
 
-export const CARGO_TOML_PATH: string = process.env.CARGO_TOML_PATH!;
-export const PACKAGE_JSON_PATH: string = process.env.PACKAGE_JSON_PATH!;
+/**
+ * @returns all versions in the build folders of every channel, newest first
+ */
+export async function getVersions(buildsPath: string, channels: Channel[]): Promise<BuildVersion[]> {
+   const folders = await readdir(buildsPath);
+   const versions: BuildVersion[] = [];
+
+   for (const folder of folders) {
+      const info = await readBuildInfo(path.resolve(buildsPath, folder));
+
+      // Builds from before build.json was written only have their folder name to go by
+      const channel = channels.find((x) => x.name === info?.channel) ?? getFolderChannel(folder, channels);
+      const versionText = info?.version ?? folder.slice(0, folder.length - (channel?.folderSuffix.length ?? 0));
+
+      if (channel && isValidVersion(versionText)) versions.push({ channel, version: stringToVersion(versionText), info });
+   }
 
-export const GIST_ID: string = process.env.GIST_ID!;
-export const REPO: string = process.env.REPO_NAME!;
+   return versions.sort((v1, v2) => compareVersions(v1.version, v2.version)).reverse();
+}
 
 /**
- * @returns all version in either debug or release folders
+ * @returns the version that comes after the latest version of a channel.
+ * The bump can be a strategy (patch, minor, major, prerelease), an explicit version such as 1.2.3-beta.1,
+ * or major.minor[-prerelease] which increases the patch number of that line, so 0.3 becomes 0.3.1 when 0.3.0 is the latest
  */
-export async function getVersions(): Promise<AppVersion[]> {
-   const folders = (await readdir(BUILDS_PATH)).sort((v1, v2) => semver.order(v1.split("_")[0], v2.split("_")[0])).reverse();
-   return folders.map((x) => ({ type: getFolderBuildType(x), version: stringToVersion(x) }));
+export function getPatchedVersion(bump: string, latestVersion: Version | undefined, preid?: string): string {
+   let newVersion: Version;
+
+   if (Object.values<string>(BumpStrategy).includes(bump)) {
+      newVersion = bumpVersion(latestVersion ?? { major: 0, minor: 0, patch: 0 }, bump as BumpStrategy, preid);
+   } else if (!isValidVersion(bump)) {
+      throw new Error(`${bump} is neither a version nor one of the bump strategies: ${Object.values(BumpStrategy).join(", ")}`);
+   } else {
+      const inputVersion = stringToVersion(bump);
+      newVersion = inputVersion.patch !== undefined ? inputVersion : patchVersionLine(inputVersion, latestVersion);
+   }
+
+   if (latestVersion && compareVersions(newVersion, latestVersion) <= 0) {
+      throw new Error(
+         `${versionToString(newVersion)} is not newer than ${versionToString(latestVersion)}, the latest version of this channel`
+      );
+   }
+
+   return versionToString(newVersion);
 }
 
 /**
- * @returns the given version with an increased patch number so 0.3.0 becomes 0.3.1
+ * @returns the version increased by the given strategy. A prerelease such as 0.3.0-beta.1 is finalized by a patch bump to 0.3.0
  */
-export function getPatchedVersion(version: string, orderedVersions: AppVersion[]): string {
-   const latestVersion = orderedVersions?.[0]?.version ?? { major: 0, minor: 0, patch: 0 };
-   const versionToPatch = stringToVersion(version);
+export function bumpVersion(version: Version, strategy: BumpStrategy, preid?: string): Version {
+   const { major, minor, patch = 0 } = version;
+   const prerelease = version.prerelease ?? [];
+   const isPrerelease = prerelease.length > 0;
 
-   if (versionToPatch.patch !== undefined) throw new Error("Input version cannot have a patch number");
-   if (versionToPatch.major < latestVersion.major || versionToPatch.minor < latestVersion.minor)
-      throw new Error("Input version cannot be less than latest available version");
+   if (strategy === BumpStrategy.MAJOR) {
+      return { major: isPrerelease && minor === 0 && patch === 0 ? major : major + 1, minor: 0, patch: 0 };
+   } else if (strategy === BumpStrategy.MINOR) {
+      return { major, minor: isPrerelease && patch === 0 ? minor : minor + 1, patch: 0 };
+   } else if (strategy === BumpStrategy.PATCH) {
+      return { major, minor, patch: isPrerelease ? patch : patch + 1 };
+   }
 
-   // If we have the same major and minor, just add 1 to the patch otherwise just a 0
-   if (versionToPatch.major === latestVersion.major && versionToPatch.minor === latestVersion.minor) {
-      versionToPatch.patch = latestVersion.patch! + 1;
-   } else {
-      versionToPatch.patch = 0;
+   // Without a preid the current identifiers are kept, so beta.1 becomes beta.2
+   const identifiers = preid ? preid.split(".") : prerelease.filter((x, i) => i < prerelease.length - 1 || !/^\d+$/.test(x));
+
+   if (isPrerelease) return { major, minor, patch, prerelease: bumpPrerelease(prerelease, identifiers) };
+   return { major, minor, patch: patch + 1, prerelease: [...identifiers, "0"] };
+}
+
+/**
+ * @returns the next version of a major.minor line, continuing from the latest version if it is on the same line
+ */
+function patchVersionLine(line: Version, latestVersion: Version | undefined): Version {
+   const prerelease = line.prerelease ?? [];
+   const isSameLine = latestVersion?.major === line.major && latestVersion?.minor === line.minor;
+
+   if (!latestVersion || !isSameLine) {
+      return { major: line.major, minor: line.minor, patch: 0, prerelease: prerelease.length > 0 ? [...prerelease, "0"] : [] };
    }
 
-   return versionToString(versionToPatch);
+   if (prerelease.length === 0) return bumpVersion(latestVersion, BumpStrategy.PATCH);
+   return bumpVersion(latestVersion, BumpStrategy.PRERELEASE, prerelease.join("."));
+}
+
+/**
+ * @returns the next prerelease identifiers, so beta.1 becomes beta.2 and beta becomes beta.0.
+ * Switching to other identifiers, such as alpha.3 to beta, starts a new counter
+ */
+export function bumpPrerelease(current: string[], identifiers: string[]): string[] {
+   const isSameIdentifiers = identifiers.every((x, i) => current[i] === x);
+   if (!isSameIdentifiers) return [...identifiers, "0"];
+
+   const counter = current[identifiers.length];
+   if (counter === undefined || !/^\d+$/.test(counter)) return [...identifiers, "0"];
+
+   return [...identifiers, (parseInt(counter) + 1).toString()];
+}
+
+/**
+ * @returns a negative number if v1 is older than v2, a positive number if it is newer and 0 if they are equal.
+ * Follows semver precedence so 0.10.0 is newer than 0.9.0 and 1.0.0-beta.2 is older than 1.0.0
+ */
+export function compareVersions(v1: Version, v2: Version): number {
+   return semver.order(
+      versionToString({ ...v1, patch: v1.patch ?? 0, build: [] }),
+      versionToString({ ...v2, patch: v2.patch ?? 0, build: [] })
+   );
 }
 
+export const PLATFORMS: Platform[] = [
+   { os: "windows", extension: ".nsis.zip", versioned: true },
+   { os: "linux", extension: ".AppImage.tar.gz", versioned: true },
+   { os: "darwin", extension: ".app.tar.gz", versioned: false },
+];
+
 /**
- * @returns a BuildFiles object that contains both .zip and .sig files from the tauri debug/release build folder
+ * @returns every updater bundle and its .sig file found in the build path or its direct subfolders (nsis, appimage, macos, ...).
+ * The architecture of a bundle comes from its file name or its folder, such as darwin-aarch64, and the given arch otherwise
  */
-export async function getBuildFiles(buildPath: string, version: string): Promise<BuildFiles> {
-   const files = await readdir(buildPath);
+export async function getBuildFiles(buildPath: string, version: string, arch?: string): Promise<BuildArtifact[]> {
+   const entries = await readdir(buildPath, { withFileTypes: true });
+   const folders = [buildPath, ...entries.filter((x) => x.isDirectory()).map((x) => path.resolve(buildPath, x.name))];
+
+   const artifacts: BuildArtifact[] = [];
 
-   const zipFileName = files.find((x) => x.endsWith(".zip") && x.includes(version));
-   const sigFileName = files.find((x) => x.endsWith(".sig") && x.includes(version));
+   for (const folder of folders) {
+      const files = await readdir(folder);
 
-   if (!zipFileName || !sigFileName) throw new Error(`.zip or .sig file not found in (${buildPath})`);
+      for (const platform of PLATFORMS) {
+         const bundleFileName = files.find((x) => x.endsWith(platform.extension) && (!platform.versioned || hasVersion(x, version)));
+         if (!bundleFileName) continue;
 
-   const zipFilePath = path.resolve(buildPath, zipFileName);
-   const sigFilePath = path.resolve(buildPath, sigFileName);
+         const sigFileName = files.find((x) => x === `${bundleFileName}.sig`);
+         if (!sigFileName) throw new Error(`.sig file for ${bundleFileName} not found in (${folder})`);
+
+         // macOS bundles are named after the product only
+         const bundleArch = getBundleArch(bundleFileName) ?? getBundleArch(path.relative(buildPath, folder)) ?? arch;
+         if (!bundleArch) throw new Error(`The architecture of ${bundleFileName} is neither in its name nor its folder (${folder})`);
+
+         const target = `${platform.os}-${bundleArch}`;
+         if (artifacts.some((x) => x.target === target)) throw new Error(`Found more than one ${target} bundle in (${buildPath})`);
+
+         artifacts.push({
+            target,
+            bundleFile: { name: bundleFileName, path: path.resolve(folder, bundleFileName) },
+            sigFile: { name: sigFileName, path: path.resolve(folder, sigFileName) },
+         });
+      }
+   }
 
-   return { zipFile: { name: zipFileName, path: zipFilePath }, sigFile: { name: sigFileName, path: sigFilePath } };
+   if (artifacts.length === 0) throw new Error(`No updater bundles or .sig files found in (${buildPath})`);
+
+   return artifacts;
 }
 
 /**
- * @returns a Version object that contains major, minor, patch numbers
+ * @returns the promotions recorded in a build folder
  */
-export function stringToVersion(version: string): Version {
-   // 0.0.0_release / 0.0.0_debug
-   const wholeSplit = version.split("_");
-   const versionSplit = wholeSplit[0].split(".");
+export async function readPromotions(versionPath: string): Promise<Promotion[]> {
+   const promotionsFile = Bun.file(path.resolve(versionPath, PROMOTIONS_FILE_NAME));
+   return (await promotionsFile.exists()) ? await promotionsFile.json() : [];
+}
+
+/**
+ * @returns whether a file name contains exactly the given version, so 0.3.0 doesn't match Huginn_0.3.0-beta.1_x64-setup.nsis.zip
+ */
+function hasVersion(fileName: string, version: string): boolean {
+   const escapedVersion = version.replace(/[.+]/g, "\\$&");
+   return new RegExp(`(?<![0-9A-Za-z.])${escapedVersion}(?![0-9A-Za-z.+-])`).test(fileName);
+}
+
+/**
+ * @returns an updater manifest with an entry for every artifact, pointing to the url returned by getUrl.
+ * Its notes are the plain text version of the markdown release notes
+ */
+export async function createUpdateFileInfo(
+   version: string,
+   notes: string,
+   artifacts: BuildArtifact[],
+   getUrl: (artifact: BuildArtifact) => string
+): Promise<UpdateFileInfo> {
+   const platforms: UpdateFileInfo["platforms"] = {};
+   for (const artifact of artifacts) {
+      platforms[artifact.target] = { signature: await Bun.file(artifact.sigFile.path).text(), url: getUrl(artifact) };
+   }
 
-   const patch = versionSplit?.[2] ?? undefined;
-   if (versionSplit.length < 2) throw new Error("Version string was invalid");
+   const lastModified = Math.max(...artifacts.map((x) => Bun.file(x.bundleFile.path).lastModified));
 
-   return { major: parseInt(versionSplit[0]), minor: parseInt(versionSplit[1]), patch: patch ? parseInt(patch) : undefined };
+   return {
+      version: version,
+      pub_date: new Date(lastModified).toISOString(),
+      notes: getManifestNotes(notes),
+      platforms: platforms,
+   };
 }
 
 /**
- * @returns a String which contains major, minor, patch numbers
+ * @returns the architecture in a bundle's file name or folder, undefined if it has none
  */
-export function versionToString(version: Version): string {
-   return `${version.major}.${version.minor}.${version.patch}`;
+export function getBundleArch(name: string): string | undefined {
+   if (/(aarch64|arm64)/.test(name)) return "aarch64";
+   else if (/(i686|i386|x86(?!_64))/.test(name)) return "i686";
+   else if (/(x86_64|x64|amd64)/.test(name)) return "x86_64";
+   return undefined;
 }
 
 /**
- * @returns returns either _debug or _release
+ * @returns the content type to upload a bundle with
  */
-export function getVersionSuffix(type: BuildType): string {
-   return type === BuildType.DEBUG ? "_debug" : "_release";
+export function getBundleContentType(fileName: string): string {
+   return fileName.endsWith(".zip") ? "application/zip" : "application/gzip";
 }
 
 /**
- * @returns a folder name's build type indicated by _release or _debug
+ * @returns whether the given string is a valid version such as 0.3, 0.3.1, 0.3.1-beta.2 or v0.3.1+abc123
  */
-export function getFolderBuildType(folderName: string): BuildType {
-   if (folderName.endsWith("_debug")) return BuildType.DEBUG;
-   else if (folderName.endsWith("_release")) return BuildType.RELEASE;
-   return BuildType.DEBUG;
+export function isValidVersion(version: string): boolean {
+   return VERSION_REGEX.test(version);
+}
+
+/**
+ * @returns a Version object that contains major, minor, patch numbers and the prerelease and build identifiers
+ */
+export function stringToVersion(version: string): Version {
+   const match = VERSION_REGEX.exec(version);
+   if (!match) throw new Error(`Version string ${version} was invalid`);
+
+   const [, major, minor, patch, prerelease, build] = match;
+
+   return {
+      major: parseInt(major),
+      minor: parseInt(minor),
+      patch: patch !== undefined ? parseInt(patch) : undefined,
+      prerelease: prerelease?.split(".") ?? [],
+      build: build?.split(".") ?? [],
+   };
 }
 
 /**
- * Writes the specified version to Cargo.toml file
+ * @returns a String which contains major, minor, patch numbers followed by the prerelease and build identifiers
  */
-export async function writeCargoTomlVersion(path: string, version: string): Promise<void> {
-   const cargoToml = Bun.file(path);
+export function versionToString(version: Version): string {
+   const prerelease = version.prerelease?.length ? `-${version.prerelease.join(".")}` : "";
+   const build = version.build?.length ? `+${version.build.join(".")}` : "";
 
-   const text = await cargoToml.text();
-   const modifiedText = text
-      .split("\n")
-      .map((x) => {
-         if (x.startsWith("version = ")) {
-            return `version = "${version}"`;
-         }
+   return `${version.major}.${version.minor}.${version.patch}${prerelease}${build}`;
+}
 
-         return x;
-      })
-      .join("\n");
+/**
+ * @returns the name of a version's build folder such as 0.3.0_release
+ */
+export function getBuildFolderName(version: string, channel: Channel): string {
+   return version + channel.folderSuffix;
+}
+
+/**
+ * @returns the name of a version's git tag such as v0.3.0-dev
+ */
+export function getTagName(version: string, channel: Channel): string {
+   return `v${version}${channel.tagSuffix}`;
+}
 
-   await Bun.write(path, modifiedText);
+/**
+ * @returns the channel of a folder name indicated by its folder suffix
+ */
+export function getFolderChannel(folderName: string, channels: Channel[]): Channel | undefined {
+   return getLongestSuffixMatch(folderName, channels, (x) => x.folderSuffix);
 }
 
 /**
- * Writes the specified version to a package.json file
+ * @returns the channel of a git tag indicated by its tag suffix
  */
-export async function writePackageJsonVersion(path: string, version: string): Promise<void> {
-   const packageJson = Bun.file(path);
+export function getTagChannel(tagName: string, channels: Channel[]): Channel | undefined {
+   return getLongestSuffixMatch(tagName, channels, (x) => x.tagSuffix);
+}
 
-   const text = await packageJson.text();
-   const modifiedText = text
-      .split("\n")
-      .map((x) => {
-         if (x.trim().startsWith('"version"')) {
-            return `"version": "${version}",`;
-         }
+/**
+ * @returns the channel with the longest suffix that the text ends with, so -dev is not mistaken for a channel with no suffix
+ */
+function getLongestSuffixMatch(text: string, channels: Channel[], getSuffix: (channel: Channel) => string): Channel | undefined {
+   return channels.filter((x) => text.endsWith(getSuffix(x))).sort((a, b) => getSuffix(b).length - getSuffix(a).length)[0];
+}
 
-         return x;
-      })
-      .join("\n");
+/**
+ * @returns the channel with the given name
+ */
+export function getChannel(name: string, channels: Channel[]): Channel {
+   const channel = channels.find((x) => x.name === name);
+   if (!channel) throw new Error(`Channel ${name} does not exist (available channels: ${channels.map((x) => x.name).join(", ")})`);
 
-   await Bun.write(path, modifiedText);
+   return channel;
 }
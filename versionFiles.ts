@@ -0,0 +1,170 @@
+import path from "path";
+import type { VersionFileChange } from "./types";
+
+/** Lockfiles that record the version of the manifest next to them, tauri's build updates Cargo.lock after a version bump */
+const LOCK_FILE_NAMES: Record<string, string> = { "Cargo.toml": "Cargo.lock", "package.json": "package-lock.json" };
+
+/**
+ * @returns whether the bundler knows how to write a version to the given file
+ */
+export function isSupportedVersionFile(filePath: string): boolean {
+   return path.basename(filePath) === "Cargo.toml" || filePath.endsWith(".json");
+}
+
+/**
+ * @returns the lockfile next to every version file that has one, whether it exists or not
+ */
+export function getLockFilePaths(versionFiles: string[]): string[] {
+   return versionFiles
+      .filter((x) => LOCK_FILE_NAMES[path.basename(x)])
+      .map((x) => path.resolve(path.dirname(x), LOCK_FILE_NAMES[path.basename(x)]));
+}
+
+/**
+ * Computes the new contents of every version file without writing anything
+ * @returns the old and new text of each file
+ */
+export async function getVersionFileChanges(filePaths: string[], version: string): Promise<VersionFileChange[]> {
+   const changes: VersionFileChange[] = [];
+
+   for (const filePath of filePaths) {
+      const oldText = await Bun.file(filePath).text();
+      changes.push({ path: filePath, oldText, newText: setFileVersion(filePath, oldText, version) });
+   }
+
+   return changes;
+}
+
+/**
+ * Writes the new text of every changed version file
+ */
+export async function writeVersionFileChanges(changes: VersionFileChange[]): Promise<void> {
+   for (const change of changes) {
+      if (change.oldText !== change.newText) await Bun.write(change.path, change.newText);
+   }
+}
+
+/**
+ * Writes the text a version file had before it was changed
+ */
+export async function restoreVersionFile(change: VersionFileChange): Promise<void> {
+   await Bun.write(change.path, change.oldText);
+}
+
+/**
+ * @returns every line that differs between the old and new text of a version file
+ */
+export function getChangedLines(change: VersionFileChange): { line: number; oldLine: string; newLine: string }[] {
+   const oldLines = change.oldText.split("\n");
+   const newLines = change.newText.split("\n");
+
+   return oldLines.flatMap((oldLine, i) => (oldLine !== newLines[i] ? [{ line: i + 1, oldLine, newLine: newLines[i] }] : []));
+}
+
+/**
+ * @returns the text of a version file with its version replaced by the given version
+ */
+export function setFileVersion(filePath: string, text: string, version: string): string {
+   const fileName = path.basename(filePath);
+
+   if (fileName === "Cargo.toml") return setCargoTomlVersion(text, version, filePath);
+   else if (fileName === "tauri.conf.json") return setTauriConfigVersion(text, version, filePath);
+   else if (fileName.endsWith(".json")) return setJsonVersion(text, ["version"], version, filePath);
+
+   throw new Error(`Writing a version to ${filePath} is not supported`);
+}
+
+/**
+ * @returns the text of a Cargo.toml with only the version of its [package] table replaced
+ */
+export function setCargoTomlVersion(text: string, version: string, filePath: string = "Cargo.toml"): string {
+   const lines = text.split("\n");
+   let table = "";
+
+   for (let i = 0; i < lines.length; i++) {
+      const tableMatch = /^\s*\[([^\]]+)\]/.exec(lines[i]);
+      if (tableMatch) {
+         table = tableMatch[1].trim();
+         continue;
+      }
+
+      if (table !== "package") continue;
+
+      if (/^\s*version\.workspace\s*=/.test(lines[i])) {
+         throw new Error(
+            `The [package] version of ${filePath} is inherited from the workspace, add the workspace's Cargo.toml instead`
+         );
+      }
+
+      // Only the quoted value is replaced so spacing and trailing comments stay as they are
+      const versionMatch = /^(\s*version\s*=\s*)(["'])[^"']*\2/.exec(lines[i]);
+      if (versionMatch) {
+         lines[i] = `${versionMatch[1]}${versionMatch[2]}${version}${versionMatch[2]}${lines[i].slice(versionMatch[0].length)}`;
+         return lines.join("\n");
+      }
+   }
+
+   throw new Error(`No [package] version was found in ${filePath}`);
+}
+
+/**
+ * @returns the text of a tauri.conf.json with its version replaced, either the top level version (tauri 2) or package.version (tauri 1)
+ */
+export function setTauriConfigVersion(text: string, version: string, filePath: string = "tauri.conf.json"): string {
+   const keyPath = findJsonStringValue(text, ["version"]) ? ["version"] : ["package", "version"];
+
+   // Tauri can read the version from a package.json instead, which is already written on its own
+   const currentValue = findJsonStringValue(text, keyPath);
+   if (currentValue && JSON.parse(text.slice(currentValue.start, currentValue.end)).endsWith(".json")) return text;
+
+   return setJsonVersion(text, keyPath, version, filePath);
+}
+
+/**
+ * @returns the text of a json file with the string at the given key path replaced, leaving the rest of the text as it was
+ */
+export function setJsonVersion(text: string, keyPath: string[], version: string, filePath: string): string {
+   const range = findJsonStringValue(text, keyPath);
+   if (!range) throw new Error(`No "${keyPath.join(".")}" string was found in ${filePath}`);
+
+   return text.slice(0, range.start) + JSON.stringify(version) + text.slice(range.end);
+}
+
+/**
+ * Scans json text for a string value at the given key path, nested objects are entered by their key
+ * @returns the start and end index of the string value including its quotes
+ */
+function findJsonStringValue(text: string, keyPath: string[]): { start: number; end: number } | undefined {
+   // Every open object or array, objects hold the key that is currently being read
+   const stack: { isArray: boolean; key?: string }[] = [];
+
+   for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (char === "{" || char === "[") {
+         stack.push({ isArray: char === "[" });
+      } else if (char === "}" || char === "]") {
+         stack.pop();
+      } else if (char === '"') {
+         const start = i;
+         for (i++; i < text.length && text[i] !== '"'; i++) {
+            if (text[i] === "\\") i++;
+         }
+         const end = i + 1;
+
+         let next = end;
+         while (/\s/.test(text[next] ?? "")) next++;
+
+         const top = stack[stack.length - 1];
+         const isKey = top && !top.isArray && text[next] === ":";
+
+         if (isKey) {
+            top.key = JSON.parse(text.slice(start, end));
+         } else if (stack.length === keyPath.length && stack.every((x, depth) => !x.isArray && x.key === keyPath[depth])) {
+            return { start, end };
+         }
+      }
+   }
+
+   return undefined;
+}